@@ -1,10 +1,21 @@
-import { Log } from "@ethersproject/providers";
+import {
+  Log,
+  TransactionReceipt,
+  TransactionResponse,
+} from "@ethersproject/providers";
 import { sleep } from "./util/sleep";
 import { getAddress } from "ethers/lib/utils";
 import logger from "./util/logger";
 import LogSubscriber from "./logSubscriber";
+import ConfirmedLogSubscriber from "./confirmedLogSubscriber";
+import BlockStore from "./stores/blockStore";
+import CheckpointStore from "./stores/checkpointStore";
+import TransactionalSink from "./stores/transactionalSink";
 import { Result } from "./util/types";
 import { Mutex } from "async-mutex";
+import { Topics, logMatchesTopics, mergeTopics } from "./util/topics";
+import { isLogsRangeLimitError } from "./util/logsRange";
+import TypedEventEmitter from "./util/typedEventEmitter";
 
 const ZERO_ADDRESS =
   "0x0000000000000000000000000000000000000000000000000000000000000000";
@@ -17,6 +28,10 @@ namespace BlockManager {
   };
   export type Block = BlockWithoutParentHash & {
     parentHash: string;
+    /* optional header fields, only available when the rpc returned them */
+    timestamp?: number; // seconds since epoch
+    baseFeePerGas?: string; // hex quantity
+    gasUsed?: string; // hex quantity
   };
 
   export type BlockError = "BlockNotFound";
@@ -38,11 +53,25 @@ namespace BlockManager {
 
   type ReInitializeBlockManagerError = "ReInitializeBlockManager";
 
+  type DeepReorgRecoveredError = "DeepReorgRecovered";
+
+  /**
+   * Result of a reorg deeper than the cache which has been handled up to the new block
+   */
+  export type DeepReorgRecovery = {
+    logs: Log[]; // logs applied from rollback.number + 1 to the new block
+    rollback: Block; // common ancestor found with getBlock
+  };
+
   export type ErrorOrReorg = Result<
     Block,
     {
-      error: CommonAncestorOrBlockError | ReInitializeBlockManagerError;
+      error:
+        | CommonAncestorOrBlockError
+        | ReInitializeBlockManagerError
+        | DeepReorgRecoveredError;
       reInitialize?: Block;
+      recovered?: DeepReorgRecovery;
     }
   >;
 
@@ -60,8 +89,10 @@ namespace BlockManager {
         | ErrorLog
         | CommonAncestorOrBlockError
         | MaxRetryError
-        | ReInitializeBlockManagerError;
+        | ReInitializeBlockManagerError
+        | DeepReorgRecoveredError;
       reInitialize?: Block;
+      recovered?: DeepReorgRecovery;
     }
   >;
 
@@ -104,11 +135,58 @@ namespace BlockManager {
      * Batch block size
      */
     batchSize: number;
+    /**
+     * When a block is considered confirmed for subscribers created with subscribeToConfirmedLogs:
+     * - `number`: the block has at least `confirmationDepth` blocks on top of it
+     * - `"finalized"`: the block is at or below the rpc `finalized` block
+     *
+     * Confirmed subscriptions are disabled when undefined.
+     */
+    confirmationDepth?: number | "finalized";
+    /**
+     * When a reorg is deeper than the cache, the common ancestor is searched with getBlock by walking
+     * back up to `maxReorgDepth` blocks from the last block. The BlockManager is re-initialized
+     * only if no common ancestor is found. Defaults to maxBlockCached (no deep search).
+     */
+    maxReorgDepth?: number;
+    /**
+     * When true, logs are dispatched to every subscriber concurrently. Each subscriber still handles
+     * its logs one by one in (blockNumber, logIndex) order. handleBlock waits for every subscriber
+     * before running post hooks.
+     */
+    parallelDispatch?: boolean;
+    /**
+     * Maximum count of blocks queried by a single getLogs call. When a getLogs call fails because the
+     * rpc limits the block range or the results count, the range is bisected and the effective span
+     * is remembered. Unlimited until the first failure when undefined.
+     */
+    maxLogsBlockSpan?: number;
+  };
+
+  export type TransactionAndReceipt = {
+    transaction: TransactionResponse;
+    receipt: TransactionReceipt;
   };
 
+  /**
+   * Transactions and receipts by transaction hash
+   */
+  export type ErrorOrTransactions = Result<
+    Record<string, TransactionAndReceipt>,
+    string
+  >;
+
+  /**
+   * Log delivered to subscriptions created with the `enrich` option
+   */
+  export type EnrichedLog = Log & Partial<TransactionAndReceipt>;
+
   export type AddressAndTopics = {
     address: string;
-    topics: string[];
+    /**
+     * eth_getLogs topics filter, an empty array means every logs emitted by address
+     */
+    topics: Topics;
   };
 
   export type CreateOptions = Options & {
@@ -128,35 +206,268 @@ namespace BlockManager {
       to: number,
       addressAndTopics: AddressAndTopics[]
     ) => Promise<ErrorOrLogs>;
+    /**
+     *  getFinalizedBlock return the rpc `finalized` block, required when confirmationDepth is "finalized"
+     */
+    getFinalizedBlock?: () => Promise<ErrorOrBlock>;
+    /**
+     *  getTransactionsAndReceipts return transactions and receipts of `hashes` in a single batched
+     *  request, required by subscriptions with the `enrich` option
+     */
+    getTransactionsAndReceipts?: (
+      hashes: string[]
+    ) => Promise<ErrorOrTransactions>;
+    /**
+     *  blockStore persists the blocks cache, see BlockManager.restore
+     */
+    blockStore?: BlockStore;
+    /**
+     *  checkpointStore persists subscribers checkpoints, see BlockManager.resume
+     */
+    checkpointStore?: CheckpointStore;
+    /**
+     *  transactionalSink commits the changes of every subscriber for each handled block (or batch
+     *  during a catch up) with their checkpoints, which are then loaded from the sink instead of
+     *  checkpointStore
+     */
+    transactionalSink?: TransactionalSink;
   };
 
   export type HandleBlockPostHookFunction = () => Promise<void>;
+
+  export type BlockEvent = {
+    block: Block;
+    logs: Log[];
+    rollback?: Block; // if rollback, it's the last common ancestor
+  };
+
+  export type ReorgEvent = {
+    ancestor: Block; // last common ancestor
+    depth: number; // count of blocks removed from the cache
+    orphanedHashes: string[]; // hashes of the removed blocks, ordered by number
+  };
+
+  export type ReinitializeEvent = {
+    block: Block; // block the BlockManager re-initialized at
+    reason: string;
+  };
+
+  export type ErrorEvent = {
+    block: Block;
+    error: string;
+    failures: number; // count of consecutive failing handleBlock
+  };
+
+  export type SubscriberInitFailedEvent = {
+    handle: SubscriptionHandle;
+    address: string;
+    block: BlockWithoutParentHash;
+    error: LogSubscriber.Error;
+  };
+
+  /**
+   * Events emitted by BlockManager, see BlockManager.on
+   */
+  export type Events = {
+    block: BlockEvent; // block successfully handled
+    reorg: ReorgEvent;
+    reinitialize: ReinitializeEvent; // no common ancestor found, the cache has been re-initialized
+    log: Log; // log delivered to subscribers, backfilled logs included
+    error: ErrorEvent; // handleBlock failed or threw
+    subscriberInitFailed: SubscriberInitFailedEvent; // initialize is retried on next block
+    deadLetter: DeadLetter; // handleLog failed, see SubscribeOptions.failurePolicy
+  };
+
+  /**
+   * Identify a subscription created by subscribeToLogs
+   */
+  export type SubscriptionHandle = number;
+
+  /**
+   * What to do once a subscriber callback (handleLog or a block hook) failed (after retries):
+   * - `skip`: ignore the failure and keep delivering next logs
+   * - `quarantine`: stop delivering logs to the subscriber and re-initialize it at the handled block
+   * - `stop`: rethrow the callback error, handleBlock rejects
+   */
+  export type FailureAction = "skip" | "quarantine" | "stop";
+
+  export type FailurePolicy = {
+    action: FailureAction;
+    maxRetries?: number; // count of callback retries before applying action, default 0
+    retryDelayMs?: number; // delay before the first retry, doubled on every retry
+    deadLetter?: (deadLetter: DeadLetter) => Promise<void>; // called with every failed callback
+  };
+
+  export type SubscriberCallback =
+    | "handleLog"
+    | "handleRemovedLog"
+    | "onBlockStart"
+    | "onBlockEnd";
+
+  export type DeadLetter = {
+    handle: SubscriptionHandle;
+    address: string;
+    callback: SubscriberCallback;
+    log?: Log; // failed (or removed) log, undefined for block hooks
+    block?: BlockWithoutParentHash; // block of a failed block hook
+    error: unknown;
+    action: FailureAction;
+  };
+
+  export type SubscribeOptions = {
+    /**
+     * Key used to save the subscriber checkpoint in options.checkpointStore and to resume from it
+     */
+    checkpointKey?: string;
+    /**
+     * Replay logs emitted since `fromBlock` (included), the subscriber is initialized at `fromBlock - 1`.
+     * History is backfilled without blocking other subscriptions, then the subscription switches to
+     * live mode.
+     */
+    fromBlock?: number;
+    /**
+     * Attach the transaction and the receipt of each log (see EnrichedLog), they are fetched once
+     * per block for all enriched subscriptions. Fields are undefined if fetching failed.
+     */
+    enrich?: boolean;
+    /**
+     * How handleLog failures are handled, defaults to `{ action: "stop" }`
+     */
+    failurePolicy?: FailurePolicy;
+    /**
+     * Call onBlockStart and onBlockEnd of the subscriber for blocks without any of its logs too
+     */
+    emptyBlocks?: boolean;
+    /**
+     * Handles of subscriptions this subscriber reads from, they must already be subscribed. In each
+     * block they handle their logs before this subscriber and they are rolled back after it.
+     */
+    dependsOn?: SubscriptionHandle[];
+  };
 }
 
+type Subscription = {
+  handle: BlockManager.SubscriptionHandle;
+  address: string; // checksum address
+  topics: Topics;
+  subscriber: LogSubscriber<any>;
+  options: BlockManager.SubscribeOptions;
+  resumedAt?: BlockManager.BlockWithoutParentHash; // checkpoint block the subscriber resumed at
+  backfilling?: boolean; // true while history is being backfilled, the subscription is not live yet
+  backfilledTo?: BlockManager.BlockWithoutParentHash; // last block committed by a transactionalSink while backfilling
+  restartBackfill?: boolean; // the cache has been initialized again while backfilling
+};
+
+type ConfirmedSubscription = Omit<
+  Subscription,
+  "subscriber" | "options" | "backfilling" | "restartBackfill"
+> & {
+  subscriber: ConfirmedLogSubscriber<any>;
+};
+
+const DEFAULT_FAILURE_POLICY: BlockManager.FailurePolicy = { action: "stop" };
+
+/**
+ * Order logs by block then by index in the block.
+ */
+const compareLogs = (a: Log, b: Log): number =>
+  a.blockNumber !== b.blockNumber
+    ? a.blockNumber - b.blockNumber
+    : a.logIndex - b.logIndex;
+
+/**
+ * How logs given to applyLogs are processed, see LogSubscriber.HandleLogContext
+ */
+type ApplyLogsMode = {
+  head: number;
+  catchUp: boolean;
+  replayed: boolean;
+  blocksMap?: Record<number, BlockManager.Block>; // blocks which may not be in cache anymore
+  fromBlock: number; // first block covered by the logs
+  toBlock: number; // last block covered by the logs
+  transactions?: Map<Log, BlockManager.TransactionAndReceipt>; // attached to logs delivered to enriched subscriptions
+  delivered?: Set<Log>; // logs handled by at least one subscriber, emitted as `log` events
+};
+
+type BlockLogs = {
+  block: BlockManager.Block;
+  logs: Log[];
+};
+
+type DeliveredLog = {
+  log: Log;
+  handle: BlockManager.SubscriptionHandle;
+};
+
 /*
  * The BlockManager class is a reliable way of handling chain reorganization.
  */
-class BlockManager {
+class BlockManager extends TypedEventEmitter<BlockManager.Events> {
   private mutex: Mutex = new Mutex();
 
   private blocksByNumber: Record<number, BlockManager.Block> = {}; // blocks cache
 
   private lastBlock: BlockManager.Block | undefined = undefined; // latest block in cache
 
-  private subscribersByAddress: Record<string, LogSubscriber<any>> = {};
-  private subscribedAddresses: BlockManager.AddressAndTopics[] = [];
+  private subscriptions: Map<BlockManager.SubscriptionHandle, Subscription> =
+    new Map();
+  private lastSubscriptionHandle: BlockManager.SubscriptionHandle = 0;
+
+  private waitingToBeInitializedSet: Set<BlockManager.SubscriptionHandle> =
+    new Set<BlockManager.SubscriptionHandle>();
 
-  private waitingToBeInitializedSet: Set<string> = new Set<string>();
+  private confirmedSubscriptions: Map<
+    BlockManager.SubscriptionHandle,
+    ConfirmedSubscription
+  > = new Map();
+  private waitingToBeInitializedConfirmedSet: Set<BlockManager.SubscriptionHandle> =
+    new Set<BlockManager.SubscriptionHandle>();
+  private lastConfirmedBlock: BlockManager.BlockWithoutParentHash | undefined =
+    undefined; // last confirmed block delivered to confirmed subscribers
 
   private countsBlocksCached: number = 0;
 
+  private blockHashHistory: Record<number, string> = {}; // hashes of last maxReorgDepth blocks
+
+  private transactionsByBlock: Record<
+    number,
+    {
+      hash: string;
+      transactions: Record<string, BlockManager.TransactionAndReceipt>;
+    }
+  > = {}; // transactions and receipts of enriched logs for blocks in cache
+
+  private deliveredLogsByBlock: Record<number, DeliveredLog[]> = {}; // logs delivered for blocks in cache
+
+  private maxLogsBlockSpan: number | undefined; // largest block range accepted by getLogs
+
+  private consecutiveFailures: number = 0; // count of consecutive failing handleBlock
+
+  private transactionBlock?: BlockManager.BlockWithoutParentHash; // block of the prepared transactionalSink transaction
+
   private postHandleBlockFunctions: BlockManager.HandleBlockPostHookFunction[] =
     [];
 
   constructor(private options: BlockManager.CreateOptions) {
+    super();
     if (options.maxBlockCached > this.options.batchSize) {
       throw new Error("options.batchSize is smaller than max block cached");
     }
+    if (
+      options.maxLogsBlockSpan !== undefined &&
+      options.maxLogsBlockSpan < 1
+    ) {
+      throw new Error("options.maxLogsBlockSpan must be at least 1");
+    }
+    this.maxLogsBlockSpan = options.maxLogsBlockSpan;
+    if (
+      options.confirmationDepth === "finalized" &&
+      !options.getFinalizedBlock
+    ) {
+      throw new Error(
+        "options.getFinalizedBlock is required with finalized confirmationDepth"
+      );
+    }
   }
 
   private checkLastBlockExist() {
@@ -170,6 +481,10 @@ class BlockManager {
     return this.lastBlock!;
   }
 
+  /**
+   * Return cached block `blockNumber` with its header fields (timestamp...) if any, `exclusive` must be
+   * false when called while handling a block (e.g. from handleLog).
+   */
   public async getBlock(
     blockNumber: number,
     exclusive: boolean = true
@@ -197,361 +512,2340 @@ class BlockManager {
    * Initialize the BlockManager cache with block
    */
   public async initialize(block: BlockManager.Block) {
+    const toBackfill = await this.initializeCache(block, true);
+    await this.backfillSubscriptions(toBackfill);
+  }
+
+  /**
+   * Initialize the BlockManager cache with block and subscribers at block. With `backfill`, returns
+   * the subscriptions to backfill instead of initializing them (see resetWaitingToBeInitialized).
+   */
+  private async initializeCache(
+    block: BlockManager.Block,
+    backfill: boolean
+  ): Promise<BlockManager.SubscriptionHandle[]> {
     logger.info("[BlockManager] initialize()", { data: { block } });
     this.lastBlock = block;
 
     this.blocksByNumber = {};
+    this.deliveredLogsByBlock = {};
+    this.transactionsByBlock = {};
+    this.blockHashHistory = {};
     this.blocksByNumber[block.number] = block;
+    this.addToHashHistory(block);
     this.countsBlocksCached = 1;
 
-    this.waitingToBeInitializedSet = new Set(
-      this.subscribedAddresses.map((addrAndTopics) => addrAndTopics.address)
-    );
-
-    await this.handleSubscribersInitialize(this.lastBlock);
-  }
-
-  /* subscribeToLogs enables a subscription for all logs emitted for the contract at the address.
-   * Only one subscription can exist by address. Calling a second time this function with the same
-   * address will result in cancelling the previous subscription.
-   * */
-  public async subscribeToLogs(
-    addressAndTopics: BlockManager.AddressAndTopics,
-    subscriber: LogSubscriber<any>
-  ) {
-    this.checkLastBlockExist();
-
-    const checksumAddress = getAddress(addressAndTopics.address);
-
-    logger.debug(`[BlockManager] subscribeToLogs() ${checksumAddress}`);
-    this.subscribersByAddress[checksumAddress] = subscriber;
+    const toBackfill = this.resetWaitingToBeInitialized(backfill);
 
-    this.subscribedAddresses.push({
-      address: checksumAddress,
-      topics: addressAndTopics.topics,
-    });
-    this.waitingToBeInitializedSet.add(checksumAddress);
+    await this.persistBlocks();
 
-    await this.handleSubscribersInitialize(this.lastBlock!);
+    await this.handleSubscribersInitialize(this.lastBlock);
+    return toBackfill;
   }
 
-  private setLastBlock(block: BlockManager.Block) {
-    logger.debug(`[BlockManager] setLastBlock()`, { data: block });
-    if (this.lastBlock) {
-      if (this.lastBlock.hash !== block.parentHash) {
-        throw new Error(`Hash in inconsitent ${JSON.stringify(block)}`);
+  /**
+   * Put subscriptions back in waitingToBeInitializedSet once the cache has been reset.
+   *
+   * Backfilling subscriptions are restarted from their checkpoint or `options.fromBlock` instead, the
+   * logs already backfilled may belong to a chain which is not canonical anymore. With `backfill`,
+   * subscriptions never initialized with a checkpointKey or `options.fromBlock` are left out and
+   * returned, they need to be backfilled rather than initialized at the last block.
+   */
+  private resetWaitingToBeInitialized(
+    backfill: boolean
+  ): BlockManager.SubscriptionHandle[] {
+    this.waitingToBeInitializedSet = new Set();
+    const toBackfill: BlockManager.SubscriptionHandle[] = [];
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.backfilling) {
+        subscription.restartBackfill = true;
+      } else if (
+        backfill &&
+        !subscription.subscriber.initializedAt &&
+        (subscription.options.checkpointKey ||
+          subscription.options.fromBlock !== undefined)
+      ) {
+        toBackfill.push(subscription.handle);
+      } else {
+        this.waitingToBeInitializedSet.add(subscription.handle);
       }
     }
-    this.lastBlock = block;
-    this.blocksByNumber[block.number] = block;
-    this.countsBlocksCached++;
+    return toBackfill;
+  }
 
-    if (this.countsBlocksCached > this.options.maxBlockCached) {
-      delete this.blocksByNumber[
-        this.lastBlock.number - this.options.maxBlockCached
-      ];
-      this.countsBlocksCached--;
+  /**
+   * Backfill subscriptions which were subscribed before the cache was initialized, the ones with
+   * nothing to backfill are initialized at the last block.
+   */
+  private async backfillSubscriptions(
+    handles: BlockManager.SubscriptionHandle[]
+  ) {
+    for (const handle of handles) {
+      if (
+        this.subscriptions.has(handle) &&
+        !(await this.startBackfill(handle))
+      ) {
+        this.waitingToBeInitializedSet.add(handle);
+      }
     }
+    await this.handleSubscribersInitialize(this.lastBlock!);
   }
 
   /**
-   * Find commonAncestor between RPC is the local cache.
-   * This methods compare blocks between cache and RPC until it finds a matching block.
-   * It return the matching block
-   * This methods compares blocks between cache and RPC until it finds a matching block.
-   * It return the matching block.
+   * Restore the BlockManager cache from options.blockStore.
+   *
+   * Stored blocks are checked against the RPC, the cache is restored up to the newest stored block
+   * which is still part of the canonical chain. If `head` is given the cache catches up until `head`
+   * (as in resume) before subscribers are initialized, otherwise they are initialized at the newest
+   * restored block.
+   *
+   * Returns false if there is no block store, if no stored block could be restored, if the newest
+   * restored block is more than maxBlockCached blocks behind `head` (the cache would not give any
+   * reorg context, catching up would only query logs to discard them) or if catching up failed, in
+   * such case the BlockManager needs to be initialized.
    */
-  private async findCommonAncestor(
-    rec: number = 0
-  ): Promise<BlockManager.ErrorOrCommonAncestor> {
-    if (rec === this.options.maxRetryGetBlock) {
-      return { error: "FailedGetBlock", ok: undefined };
+  public async restore(head?: BlockManager.Block): Promise<boolean> {
+    if (!this.options.blockStore) {
+      return false;
     }
 
-    if (this.countsBlocksCached == 1) {
-      return {
-        error: "NoCommonAncestorFoundInCache",
-        ok: undefined,
-      };
+    let storedBlocks: BlockManager.Block[];
+    try {
+      storedBlocks = await this.options.blockStore.load();
+    } catch (e) {
+      logger.error("[BlockManager] restore(): failed loading blocks", {
+        data: { error: e },
+      });
+      return false;
     }
 
-    const rpcBlocks = await this.options.getBlocksBatch(
-      this.lastBlock!.number - this.options.batchSize,
-      this.lastBlock!.number
+    /* keep only the chain linked by parentHash ending with the newest stored block */
+    const storedBlocksByNumber: Record<number, BlockManager.Block> = {};
+    for (const block of storedBlocks) {
+      storedBlocksByNumber[block.number] = block;
+    }
+    const chain: BlockManager.Block[] = [];
+    let current: BlockManager.Block | undefined = storedBlocks.reduce(
+      (newest: BlockManager.Block | undefined, block) =>
+        !newest || block.number > newest.number ? block : newest,
+      undefined
     );
+    while (current && chain.length < this.options.maxBlockCached) {
+      chain.unshift(current);
+      const parent: BlockManager.Block | undefined =
+        storedBlocksByNumber[current.number - 1];
+      current =
+        parent && parent.hash === current.parentHash ? parent : undefined;
+    }
 
-    if (rpcBlocks.error) {
-      await sleep(this.options.retryDelayGetBlockMs);
-      return this.findCommonAncestor(rec + 1);
+    if (chain.length === 0) {
+      logger.info("[BlockManager] restore(): no block stored");
+      return false;
     }
 
-    const blocks = rpcBlocks.ok!;
-    for (let i = 0; i < this.countsBlocksCached; ++i) {
-      const currentBlockNumber = this.lastBlock!.number - i;
+    /* start one block earlier, getBlocksBatch may return no block when from === to */
+    const rpcBlocks = await this.options.getBlocksBatch(
+      chain[0].number - 1,
+      chain[chain.length - 1].number
+    );
+    if (rpcBlocks.error) {
+      logger.warn(`[BlockManager] restore(): failure ${rpcBlocks.error}`);
+      return false;
+    }
 
-      const fetchedBlock = blocks[blocks.length - 1 - i];
+    const rpcHashes: Record<number, string> = {};
+    for (const block of rpcBlocks.ok) {
+      rpcHashes[block.number] = block.hash;
+    }
 
-      const cachedBlock = this.blocksByNumber[currentBlockNumber];
-      if (fetchedBlock.hash === cachedBlock.hash) {
-        return {
-          error: undefined,
-          ok: cachedBlock,
-        };
-      }
+    /* drop blocks that have been reorged while we were offline */
+    while (
+      chain.length > 0 &&
+      rpcHashes[chain[chain.length - 1].number] !== chain[chain.length - 1].hash
+    ) {
+      chain.pop();
     }
 
-    return { error: "NoCommonAncestorFoundInCache", ok: undefined };
-  }
+    if (chain.length === 0) {
+      logger.warn("[BlockManager] restore(): stored blocks are not canonical");
+      return false;
+    }
 
-  /**
-   * Fetch the chain from this.lastBlock.number + 1 until newBlock.number.
-   * Try to reconstruct a valid chain in cache.
-   *
-   * A valid chain is a chain where blocks are chained with their successor with parentHash.
-   *
-   * block1(parentHash: "0x0", hash: "0x1") => block2("0x1", hash: "0x2")
-   */
-  private async populateValidChainUntilBlock(
-    newBlock: BlockManager.Block,
-    rec: number = 0
-  ): Promise<{
-    error: BlockManager.MaxRetryError | BlockManager.BlockError | undefined;
-  }> {
-    if (rec > this.options.maxRetryGetBlock) {
-      return { error: "MaxRetryReach" };
+    const restoredBlock = chain[chain.length - 1];
+    if (
+      head &&
+      head.number - restoredBlock.number > this.options.maxBlockCached
+    ) {
+      logger.info("[BlockManager] restore(): stored blocks are too old", {
+        data: { restoredBlock, head },
+      });
+      return false;
     }
 
-    /* fetch all blocks between this.lastBlock excluded and newBlock included '*/
-    const blocksPromises: Promise<BlockManager.ErrorOrBlock>[] = [];
-    for (let i = this.lastBlock!.number + 1; i <= newBlock.number; ++i) {
-      blocksPromises.push(this.options.getBlock(i));
+    this.blocksByNumber = {};
+    this.deliveredLogsByBlock = {};
+    this.transactionsByBlock = {};
+    this.blockHashHistory = {};
+    for (const block of chain) {
+      this.blocksByNumber[block.number] = block;
+      this.addToHashHistory(block);
     }
+    this.countsBlocksCached = chain.length;
+    this.lastBlock = chain[chain.length - 1];
 
-    const blocks = await this.options.getBlocksBatch(
-      this.lastBlock!.number + 1,
-      newBlock.number
-    );
+    logger.info("[BlockManager] restore()", {
+      data: { lastBlock: this.lastBlock, countsBlocksCached: chain.length },
+    });
 
-    if (blocks.error) {
-      return this.populateValidChainUntilBlock(newBlock, rec + 1);
-    }
+    const toBackfill = this.resetWaitingToBeInitialized(true);
 
-    const _blocks = blocks.ok!;
-    for (const block of _blocks) {
-      /* check that queried block is chaining with lastBlock  */
-      if (this.lastBlock!.hash != block.parentHash) {
-        /* TODO: this.lastBlock.hash could have been reorg ? */
+    await this.persistBlocks();
 
-        /* the getBlock might fail for some reason, wait retryDelayGetBlockMs to let it catch up*/
-        await sleep(this.options.retryDelayGetBlockMs);
+    if (!head) {
+      await this.handleSubscribersInitialize(this.lastBlock);
+      await this.backfillSubscriptions(toBackfill);
+      return true;
+    }
 
-        /* retry until rec === maxRetryGetBlock */
-        return await this.populateValidChainUntilBlock(newBlock, rec + 1);
-      } else {
-        /* queried block is the successor of this.lastBlock add it to the cache */
-        this.setLastBlock(block);
-      }
+    /* subscribers are initialized at head, not at a stale restored block */
+    const { error } = await this.handleBlock(head);
+    if (error) {
+      logger.warn(`[BlockManager] restore(): failed catching up ${error}`);
+      return false;
     }
 
-    return { error: undefined };
+    await this.mutex.runExclusive(async () => {
+      await this.runTransaction(this.lastBlock!, () =>
+        this.handleSubscribersInitialize(this.lastBlock!)
+      );
+      await this.saveCheckpoints();
+    });
+    await this.backfillSubscriptions(toBackfill);
+
+    return true;
   }
 
   /**
-   * Establish a valid chain with last block = newBlock.number.
-   *
-   * Returns found commonAncestor.   */
-  private async handleReorg(
-    newBlock: BlockManager.Block
-  ): Promise<BlockManager.ErrorOrReorg> {
-    let { error, ok: commonAncestor } = await this.findCommonAncestor();
+   * Save blocks cache in options.blockStore, a failure is logged but does not interrupt block handling.
+   */
+  private async persistBlocks() {
+    if (!this.options.blockStore) {
+      return;
+    }
+
+    try {
+      await this.options.blockStore.save(Object.values(this.blocksByNumber));
+    } catch (e) {
+      logger.error("[BlockManager] persistBlocks(): failure", {
+        data: { error: e },
+      });
+    }
+  }
+
+  /* subscribeToLogs enables a subscription for all logs emitted for the contract at the address
+   * and matching topics. Any number of subscriptions can exist for the same address, each of them
+   * is initialized and rollbacked independently.
+   * A subscriber instance can only be used by one subscription at a time.
+   *
+   * Subscribing before the BlockManager is initialized is allowed, it is required to resume the
+   * subscriber from its checkpoint (see resume). A subscription with a checkpoint or with
+   * `options.fromBlock` is backfilled from its checkpoint or `fromBlock` before going live, once the
+   * BlockManager is initialized.
+   * Backfilling waits for the block being handled, so such a subscription must not be awaited from
+   * a subscriber (handleLog, block hooks...) or a post hook: it would never resolve.
+   *
+   * Returns the handle identifying the subscription.
+   * */
+  public async subscribeToLogs(
+    addressAndTopics: BlockManager.AddressAndTopics,
+    subscriber: LogSubscriber<any>,
+    options: BlockManager.SubscribeOptions = {}
+  ): Promise<BlockManager.SubscriptionHandle> {
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.subscriber === subscriber) {
+        throw new Error("subscriber is already subscribed");
+      }
+    }
+
+    if (options.enrich && !this.options.getTransactionsAndReceipts) {
+      throw new Error(
+        "options.getTransactionsAndReceipts is required to enrich logs"
+      );
+    }
+
+    /* dependencies must be subscribed first, so there can't be any cycle */
+    for (const dependency of options.dependsOn || []) {
+      if (!this.subscriptions.has(dependency)) {
+        throw new Error(`unknown dependency handle ${dependency}`);
+      }
+    }
+
+    const checksumAddress = getAddress(addressAndTopics.address);
+    const handle = ++this.lastSubscriptionHandle;
+
+    logger.debug(
+      `[BlockManager] subscribeToLogs() ${checksumAddress} (handle: ${handle})`
+    );
+    this.subscriptions.set(handle, {
+      handle,
+      address: checksumAddress,
+      topics: addressAndTopics.topics,
+      subscriber,
+      options,
+    });
+
+    if (this.lastBlock && (await this.startBackfill(handle))) {
+      return handle;
+    }
+
+    this.waitingToBeInitializedSet.add(handle);
+
+    if (this.lastBlock) {
+      await this.handleSubscribersInitialize(this.lastBlock);
+    }
+
+    return handle;
+  }
+
+  /**
+   * Load checkpoint of `subscription` and verify that its block is still canonical.
+   */
+  private async loadCanonicalCheckpoint(subscription: Subscription): Promise<
+    | {
+        checkpoint: LogSubscriber.Checkpoint;
+        block: BlockManager.Block;
+      }
+    | undefined
+  > {
+    const key = subscription.options.checkpointKey;
+    const { transactionalSink, checkpointStore } = this.options;
+    if (!key || (!transactionalSink && !checkpointStore)) {
+      return undefined;
+    }
+
+    let checkpoint: LogSubscriber.Checkpoint | undefined;
+    try {
+      /* with a transactionalSink, checkpoints are committed with the subscribers changes */
+      checkpoint = transactionalSink
+        ? await transactionalSink.loadCheckpoint(key)
+        : await checkpointStore!.load(key);
+    } catch (e) {
+      logger.error(
+        `[BlockManager] loadCanonicalCheckpoint(): failed loading checkpoint ${key}`,
+        { data: { error: e } }
+      );
+    }
+    if (!checkpoint) {
+      return undefined;
+    }
+
+    const { error, ok: block } = await this.options.getBlock(
+      checkpoint.block.number
+    );
+    if (error || block.hash !== checkpoint.block.hash) {
+      logger.warn(
+        `[BlockManager] loadCanonicalCheckpoint(): checkpoint ${key} is not canonical anymore`,
+        { data: { checkpoint, error } }
+      );
+      return undefined;
+    }
+
+    return { checkpoint, block };
+  }
+
+  /**
+   * Restore `subscription` at `checkpoint` whose canonical block is `block`. Returns the block from
+   * which logs need to be delivered, older than `block` if the subscriber could only restore an older
+   * state (see LogSubscriber.restore), or undefined if the subscriber failed to restore.
+   */
+  private async restoreSubscription(
+    subscription: Subscription,
+    checkpoint: LogSubscriber.Checkpoint,
+    block: BlockManager.Block
+  ): Promise<BlockManager.Block | undefined> {
+    const { subscriber } = subscription;
+    let resumedAt = block;
+    if (subscriber.restore) {
+      const { error, ok: restoredBlock } = await subscriber.restore(checkpoint);
+      if (error) {
+        logger.warn(
+          `[BlockManager] restoreSubscription(): failed restoring ${subscription.options.checkpointKey}`,
+          { data: { error } }
+        );
+        return undefined;
+      }
+
+      if (restoredBlock.hash !== block.hash) {
+        const { error: getBlockError, ok: canonicalBlock } =
+          await this.options.getBlock(restoredBlock.number);
+        if (
+          getBlockError ||
+          restoredBlock.number > block.number ||
+          canonicalBlock.hash !== restoredBlock.hash
+        ) {
+          logger.warn(
+            `[BlockManager] restoreSubscription(): ${subscription.options.checkpointKey} restored at a block which is not canonical`,
+            { data: { restoredBlock, error: getBlockError } }
+          );
+          return undefined;
+        }
+        resumedAt = canonicalBlock;
+      }
+    }
+
+    subscriber.initializedAt = checkpoint.initializedAt;
+    subscriber.lastSeenEventBlock =
+      resumedAt === block ? checkpoint.lastSeenEventBlock : resumedAt;
+    subscription.resumedAt = resumedAt;
+    return resumedAt;
+  }
+
+  /**
+   * Backfill `subscription` from its checkpoint or from `options.fromBlock` if any.
+   *
+   * Returns false if there is nothing to backfill, the subscription needs to be initialized as usual.
+   */
+  private async startBackfill(
+    handle: BlockManager.SubscriptionHandle
+  ): Promise<boolean> {
+    const subscription = this.subscriptions.get(handle)!;
+
+    /* keep the subscription out of live handling until it's backfilled */
+    subscription.backfilling = true;
+    try {
+      const startBlock = await this.getBackfillStartBlock(subscription);
+      if (!startBlock) {
+        return false;
+      }
+      await this.backfill(subscription, startBlock);
+      return true;
+    } catch (e) {
+      this.subscriptions.delete(handle);
+      throw e;
+    } finally {
+      subscription.backfilling = false;
+      subscription.backfilledTo = undefined;
+      subscription.restartBackfill = false;
+    }
+  }
+
+  /**
+   * Restore `subscription` at its checkpoint or initialize it at `options.fromBlock - 1`, returns
+   * the block from which it needs to be backfilled.
+   */
+  private async getBackfillStartBlock(
+    subscription: Subscription
+  ): Promise<BlockManager.BlockWithoutParentHash | undefined> {
+    const handle = subscription.handle;
+    const canonicalCheckpoint = await this.loadCanonicalCheckpoint(
+      subscription
+    );
+    let startBlock: BlockManager.BlockWithoutParentHash | undefined =
+      canonicalCheckpoint &&
+      canonicalCheckpoint.block.number <= this.lastBlock!.number
+        ? await this.restoreSubscription(
+            subscription,
+            canonicalCheckpoint.checkpoint,
+            canonicalCheckpoint.block
+          )
+        : undefined;
+    if (
+      !startBlock &&
+      subscription.options.fromBlock !== undefined &&
+      subscription.options.fromBlock <= this.lastBlock!.number
+    ) {
+      const { error, ok: block } = await this.options.getBlock(
+        subscription.options.fromBlock - 1
+      );
+      if (error) {
+        this.subscriptions.delete(handle);
+        throw new Error(`failed fetching fromBlock - 1: ${error}`);
+      }
+
+      const initializeError = await subscription.subscriber.initialize(block);
+      if (initializeError) {
+        this.emitSubscriberInitFailed(subscription, block, initializeError);
+        this.subscriptions.delete(handle);
+        throw new Error(
+          `failed initializing subscriber at fromBlock - 1: ${initializeError}`
+        );
+      }
+      subscription.subscriber.initializedAt = block;
+      subscription.subscriber.lastSeenEventBlock = block;
+      startBlock = block;
+    }
+
+    return startBlock;
+  }
+
+  /**
+   * Deliver all logs between `startBlock` (excluded) and the last block to `subscription`.
+   *
+   * Old blocks are queried in batches without holding the mutex so that handleBlock keeps going for
+   * other subscriptions, these batches stop before the reorg window as they can't be rolled back.
+   * Once close enough to the last block, the mutex is acquired to deliver the remaining logs and
+   * switch the subscription to live mode, so that no log is missed or duplicated.
+   */
+  private async backfill(
+    subscription: Subscription,
+    startBlock: BlockManager.BlockWithoutParentHash
+  ) {
+    logger.info("[BlockManager] backfill()", {
+      data: { handle: subscription.handle, startBlock },
+    });
+
+    let cursor = startBlock;
+    let rec = 0;
+    for (;;) {
+      if (!this.isSubscribed(subscription)) {
+        return;
+      }
+
+      if (subscription.restartBackfill) {
+        subscription.restartBackfill = false;
+        subscription.backfilledTo = undefined;
+        const restartBlock = await this.getBackfillStartBlock(subscription);
+        if (!restartBlock) {
+          /* nothing to backfill anymore, it will be initialized with the next block */
+          this.waitingToBeInitializedSet.add(subscription.handle);
+          return;
+        }
+        logger.info("[BlockManager] backfill() restarted", {
+          data: { handle: subscription.handle, startBlock: restartBlock },
+        });
+        cursor = restartBlock;
+        rec = 0;
+        continue;
+      }
+
+      const handOver =
+        this.lastBlock!.number - cursor.number <= this.options.batchSize ||
+        cursor.number >= this.lastBlock!.number - this.getMaxReorgDepth();
+
+      const backfillBatch = async () => {
+        if (subscription.restartBackfill) {
+          /* the cache has been initialized again while waiting for the mutex */
+          return { error: undefined, ok: cursor };
+        }
+        const res = await this.backfillRange(
+          subscription,
+          cursor,
+          handOver
+            ? this.lastBlock!.number
+            : Math.min(
+                cursor.number + this.options.batchSize,
+                this.lastBlock!.number - this.getMaxReorgDepth()
+              )
+        );
+        if (!res.error && handOver) {
+          /* switch to live mode while holding the mutex: next handleBlock delivers next logs */
+          subscription.backfilling = false;
+        }
+        if (this.options.transactionalSink) {
+          subscription.backfilledTo = res.ok;
+        }
+        return res;
+      };
+
+      /* with a transactionalSink, batches are committed with the subscription checkpoint so they can't overlap handleBlock */
+      const result =
+        handOver || this.options.transactionalSink
+          ? await this.mutex.runExclusive(() =>
+              this.runTransaction(
+                this.lastBlock!,
+                backfillBatch,
+                (res) => !!res.error
+              )
+            )
+          : await backfillBatch();
+
+      if (result.error) {
+        if (rec >= this.options.maxRetryGetLogs) {
+          this.subscriptions.delete(subscription.handle);
+          throw new Error(`failed backfilling subscription: ${result.error}`);
+        }
+        rec++;
+        await sleep(this.options.retryDelayGetLogsMs);
+        continue;
+      }
+
+      rec = 0;
+      cursor = result.ok!;
+      if (subscription.restartBackfill) {
+        continue;
+      }
+      if (this.waitingToBeInitializedSet.has(subscription.handle)) {
+        /* quarantined while backfilling, it will be initialized with the next block */
+        return;
+      }
+      if (handOver) {
+        logger.info("[BlockManager] backfill() done", {
+          data: { handle: subscription.handle, block: cursor },
+        });
+        return;
+      }
+    }
+  }
+
+  /**
+   * Query blocks and logs of `subscription` between `from` (excluded) and `to` (included), verify
+   * that they are chained and deliver logs. Returns the `to` block.
+   */
+  private async backfillRange(
+    subscription: Subscription,
+    from: BlockManager.BlockWithoutParentHash,
+    to: number
+  ): Promise<Result<BlockManager.BlockWithoutParentHash, string>> {
+    if (to <= from.number) {
+      return { error: undefined, ok: from };
+    }
+
+    const blocksResult = await this.options.getBlocksBatch(from.number, to);
+    if (blocksResult.error) {
+      return { error: blocksResult.error, ok: undefined };
+    }
+
+    const blocksMap: Record<number, BlockManager.Block> = {};
+    for (const block of blocksResult.ok) {
+      const cachedBlock = this.blocksByNumber[block.number];
+      if (block.hash === ZERO_ADDRESS && cachedBlock) {
+        blocksMap[block.number] = cachedBlock; // repair problem with multi call
+      } else {
+        blocksMap[block.number] = block;
+      }
+    }
+
+    /* check that blocks are chained from `from` until `to` */
+    let previousHash = from.hash;
+    for (let i = from.number + 1; i <= to; ++i) {
+      const block = blocksMap[i];
+      if (!block || block.parentHash !== previousHash) {
+        return { error: "BlockNotFound", ok: undefined };
+      }
+      previousHash = block.hash;
+    }
+
+    const { error, ok } = await this.getLogs(from.number + 1, to, [
+      { address: subscription.address, topics: subscription.topics },
+    ]);
+    if (error) {
+      return { error, ok: undefined };
+    }
+
+    const logs = Array.isArray(ok) ? ok : [];
+    for (const log of logs) {
+      const block = blocksMap[log.blockNumber];
+      if (!block || block.hash !== log.blockHash) {
+        return { error: "FailedFetchingLog", ok: undefined };
+      }
+    }
+
+    logs.forEach((log) => (log.address = getAddress(log.address)));
+    const transactions = subscription.options.enrich
+      ? await this.enrichLogs(
+          logs.filter(
+            (log) =>
+              log.address === subscription.address &&
+              logMatchesTopics(log, subscription.topics)
+          )
+        )
+      : undefined;
+
+    const mode: ApplyLogsMode = {
+      head: this.lastBlock!.number,
+      catchUp: true,
+      replayed: false,
+      blocksMap,
+      fromBlock: from.number + 1,
+      toBlock: to,
+      transactions,
+      delivered: new Set(),
+    };
+    const wantsLog = (log: Log) =>
+      this.isSubscribed(subscription) &&
+      !this.waitingToBeInitializedSet.has(subscription.handle) && // quarantined
+      log.address === subscription.address &&
+      logMatchesTopics(log, subscription.topics);
+    const { onBlockStart, onBlockEnd } = subscription.subscriber;
+    const blocks = this.groupLogsByBlock(logs, mode);
+    for (const { block, logs: blockLogs } of blocks) {
+      const hooked =
+        (!!onBlockStart || !!onBlockEnd) &&
+        (!!subscription.options.emptyBlocks || blockLogs.some(wantsLog));
+      if (hooked) {
+        await this.callBlockHook(subscription, "onBlockStart", block);
+      }
+
+      for (const log of blockLogs) {
+        if (!wantsLog(log)) {
+          continue;
+        }
+        const delivered = await this.deliverLog(
+          subscription,
+          this.getSubscriptionLog(subscription, log, mode),
+          this.getHandleLogContext(log, mode)
+        );
+        if (delivered) {
+          mode.delivered!.add(log);
+        }
+        if (delivered && this.blocksByNumber[log.blockNumber]) {
+          this.recordDeliveredLog(log, subscription);
+        }
+      }
+      this.emitDeliveredLogs(blockLogs, mode);
+
+      if (hooked) {
+        await this.callBlockHook(subscription, "onBlockEnd", block);
+      }
+      if (
+        subscription.subscriber.onBlockHandled &&
+        this.isSubscribed(subscription) &&
+        !this.waitingToBeInitializedSet.has(subscription.handle)
+      ) {
+        subscription.subscriber.onBlockHandled(block);
+      }
+    }
+
+    return {
+      error: undefined,
+      ok: { number: to, hash: blocksMap[to].hash },
+    };
+  }
+
+  /**
+   * Resume subscriptions from their checkpoint saved in options.checkpointStore, or committed by
+   * options.transactionalSink.
+   *
+   * Each checkpoint block is verified against the RPC to detect reorgs which happened while we were
+   * offline, subscriptions without a valid checkpoint are initialized as usual. The cache is initialized
+   * at the oldest block a subscriber has been restored at then catches up until `head`, every
+   * subscriber only receives logs newer than its checkpoint (or than its older restored state).
+   *
+   * Returns false if no subscription could be resumed, in such case the BlockManager needs to be initialized.
+   */
+  public async resume(head: BlockManager.Block): Promise<boolean> {
+    if (!this.options.checkpointStore && !this.options.transactionalSink) {
+      return false;
+    }
+
+    const resumedAtByHandle = new Map<
+      BlockManager.SubscriptionHandle,
+      BlockManager.Block
+    >();
+    for (const subscription of this.subscriptions.values()) {
+      const canonicalCheckpoint = await this.loadCanonicalCheckpoint(
+        subscription
+      );
+      const resumedAt =
+        canonicalCheckpoint &&
+        (await this.restoreSubscription(
+          subscription,
+          canonicalCheckpoint.checkpoint,
+          canonicalCheckpoint.block
+        ));
+      if (resumedAt) {
+        resumedAtByHandle.set(subscription.handle, resumedAt);
+      }
+    }
+
+    if (resumedAtByHandle.size === 0) {
+      return false;
+    }
+
+    const oldest = Array.from(resumedAtByHandle.values()).reduce(
+      (acc, current) => (current.number < acc.number ? current : acc)
+    );
+
+    logger.info("[BlockManager] resume()", {
+      data: { block: oldest, head },
+    });
+
+    this.lastBlock = oldest;
+    this.blocksByNumber = {};
+    this.deliveredLogsByBlock = {};
+    this.transactionsByBlock = {};
+    this.blockHashHistory = {};
+    this.blocksByNumber[oldest.number] = oldest;
+    this.addToHashHistory(oldest);
+    this.countsBlocksCached = 1;
+
+    /* subscriptions without valid checkpoint will be backfilled or initialized once we caught up with head */
+    const toBackfill = this.resetWaitingToBeInitialized(true);
+    for (const handle of resumedAtByHandle.keys()) {
+      this.waitingToBeInitializedSet.delete(handle);
+    }
+
+    const { error } = await this.handleBlock(head);
+    if (error) {
+      logger.warn(`[BlockManager] resume(): failed catching up ${error}`);
+      return false;
+    }
+
+    await this.mutex.runExclusive(async () => {
+      await this.runTransaction(this.lastBlock!, () =>
+        this.handleSubscribersInitialize(this.lastBlock!)
+      );
+      await this.saveCheckpoints();
+    });
+    await this.backfillSubscriptions(
+      toBackfill.filter((handle) => !resumedAtByHandle.has(handle))
+    );
+
+    return true;
+  }
+
+  /**
+   * Save checkpoint of every initialized subscription with a checkpointKey in options.checkpointStore,
+   * a failure is logged but does not interrupt block handling. Checkpoints are committed by
+   * options.transactionalSink instead if any.
+   */
+  private async saveCheckpoints() {
+    if (
+      !this.options.checkpointStore ||
+      this.options.transactionalSink ||
+      !this.lastBlock
+    ) {
+      return;
+    }
+
+    const checkpoints = this.getCheckpoints(this.lastBlock);
+    if (Object.keys(checkpoints).length === 0) {
+      return;
+    }
+
+    try {
+      await this.options.checkpointStore.save(checkpoints);
+    } catch (e) {
+      logger.error("[BlockManager] saveCheckpoints(): failure", {
+        data: { error: e },
+      });
+    }
+  }
+
+  /**
+   * Return checkpoint at `block` of every initialized subscription with a checkpointKey, a subscription
+   * being backfilled is checkpointed at the last block it backfilled in a transaction.
+   */
+  private getCheckpoints(
+    block: BlockManager.BlockWithoutParentHash
+  ): Record<string, LogSubscriber.Checkpoint> {
+    const checkpoints: Record<string, LogSubscriber.Checkpoint> = {};
+    for (const subscription of this.subscriptions.values()) {
+      const key = subscription.options.checkpointKey;
+      const { initializedAt, lastSeenEventBlock } = subscription.subscriber;
+      if (
+        !key ||
+        !initializedAt ||
+        (subscription.backfilling && !subscription.backfilledTo) ||
+        this.waitingToBeInitializedSet.has(subscription.handle)
+      ) {
+        continue;
+      }
+
+      const checkpointBlock = subscription.backfilling
+        ? subscription.backfilledTo!
+        : block;
+      checkpoints[key] = {
+        block: { number: checkpointBlock.number, hash: checkpointBlock.hash },
+        initializedAt: {
+          number: initializedAt.number,
+          hash: initializedAt.hash,
+        },
+        lastSeenEventBlock: lastSeenEventBlock
+          ? { number: lastSeenEventBlock.number, hash: lastSeenEventBlock.hash }
+          : undefined,
+      };
+    }
+    return checkpoints;
+  }
+
+  /**
+   * Run `fn` in a transaction of options.transactionalSink prepared for `block`. The transaction is
+   * committed with the checkpoints at the last block if `fn` succeeds, aborted if it fails or throws.
+   * Without transactionalSink `fn` is just called.
+   */
+  private async runTransaction<T>(
+    block: BlockManager.BlockWithoutParentHash,
+    fn: () => Promise<T>,
+    failed: (res: T) => boolean = () => false
+  ): Promise<T> {
+    if (!this.options.transactionalSink) {
+      return await fn();
+    }
+
+    await this.prepareTransaction(block);
+    let res: T;
+    try {
+      res = await fn();
+    } catch (e) {
+      await this.abortTransaction();
+      throw e;
+    }
+
+    if (failed(res)) {
+      await this.abortTransaction();
+    } else {
+      await this.commitTransaction();
+    }
+    return res;
+  }
+
+  private async prepareTransaction(block: BlockManager.BlockWithoutParentHash) {
+    await this.options.transactionalSink!.prepare(block);
+    this.transactionBlock = block;
+    logger.debug("[BlockManager] prepareTransaction()", { data: { block } });
+  }
+
+  private async commitTransaction() {
+    const block = this.lastBlock!;
+    this.transactionBlock = undefined;
+    await this.options.transactionalSink!.commit(
+      { number: block.number, hash: block.hash },
+      this.getCheckpoints(block)
+    );
+    logger.debug("[BlockManager] commitTransaction()", { data: { block } });
+  }
+
+  private async abortTransaction() {
+    const block = this.transactionBlock!;
+    this.transactionBlock = undefined;
+    logger.warn("[BlockManager] abortTransaction()", { data: { block } });
+    await this.options.transactionalSink!.abort(block);
+  }
+
+  /**
+   * unsubscribeFromLogs removes the subscription identified by `handle`. Its address is not queried
+   * anymore and its subscriber does not receive any logs or rollbacks.
+   *
+   * It is safe to call while a block is being handled (even from a subscriber), the removal takes
+   * effect immediately.
+   *
+   * Returns false if the subscription does not exist.
+   */
+  public unsubscribeFromLogs(handle: BlockManager.SubscriptionHandle): boolean {
+    const subscription =
+      this.subscriptions.get(handle) || this.confirmedSubscriptions.get(handle);
+    if (!subscription) {
+      return false;
+    }
+
+    logger.debug(
+      `[BlockManager] unsubscribeFromLogs() ${subscription.address} (handle: ${handle})`
+    );
+    this.subscriptions.delete(handle);
+    this.waitingToBeInitializedSet.delete(handle);
+    this.confirmedSubscriptions.delete(handle);
+    this.waitingToBeInitializedConfirmedSet.delete(handle);
+
+    return true;
+  }
+
+  private isSubscribed(
+    subscription: Subscription | ConfirmedSubscription
+  ): boolean {
+    return (
+      this.subscriptions.get(subscription.handle) === subscription ||
+      this.confirmedSubscriptions.get(subscription.handle) === subscription
+    );
+  }
+
+  /* subscribeToConfirmedLogs enables a subscription for all logs emitted for the contract at the
+   * address and matching topics, logs are only delivered once their block is confirmed.
+   * The subscriber is initialized at the latest confirmed block.
+   *
+   * Returns the handle identifying the subscription, it can be removed with unsubscribeFromLogs.
+   * */
+  public async subscribeToConfirmedLogs(
+    addressAndTopics: BlockManager.AddressAndTopics,
+    subscriber: ConfirmedLogSubscriber<any>
+  ): Promise<BlockManager.SubscriptionHandle> {
+    this.checkLastBlockExist();
+
+    if (this.options.confirmationDepth === undefined) {
+      throw new Error("options.confirmationDepth is undefined");
+    }
+
+    for (const subscription of this.confirmedSubscriptions.values()) {
+      if (subscription.subscriber === subscriber) {
+        throw new Error("subscriber is already subscribed");
+      }
+    }
+
+    const checksumAddress = getAddress(addressAndTopics.address);
+    const handle = ++this.lastSubscriptionHandle;
+
+    logger.debug(
+      `[BlockManager] subscribeToConfirmedLogs() ${checksumAddress} (handle: ${handle})`
+    );
+    this.confirmedSubscriptions.set(handle, {
+      handle,
+      address: checksumAddress,
+      topics: addressAndTopics.topics,
+      subscriber,
+    });
+    this.waitingToBeInitializedConfirmedSet.add(handle);
+
+    await this.handleConfirmedSubscribersInitialize();
+
+    return handle;
+  }
+
+  /**
+   * Return addresses and topics of all `subscriptions`, topics of subscriptions sharing the same
+   * address are merged.
+   */
+  private getSubscribedAddressesAndTopics(
+    subscriptions: Iterable<
+      Subscription | ConfirmedSubscription
+    > = this.subscriptions.values()
+  ): BlockManager.AddressAndTopics[] {
+    const topicsByAddress: Record<string, Topics[]> = {};
+    for (const subscription of subscriptions) {
+      if ("backfilling" in subscription && subscription.backfilling) {
+        continue; // logs are queried by backfill
+      }
+      if (!topicsByAddress[subscription.address]) {
+        topicsByAddress[subscription.address] = [];
+      }
+      topicsByAddress[subscription.address].push(subscription.topics);
+    }
+
+    return Object.entries(topicsByAddress).map(([address, topics]) => ({
+      address,
+      topics: mergeTopics(topics),
+    }));
+  }
+
+  private setLastBlock(block: BlockManager.Block) {
+    logger.debug(`[BlockManager] setLastBlock()`, { data: block });
+    if (this.lastBlock) {
+      if (this.lastBlock.hash !== block.parentHash) {
+        throw new Error(`Hash in inconsitent ${JSON.stringify(block)}`);
+      }
+    }
+    this.lastBlock = block;
+    this.blocksByNumber[block.number] = block;
+    this.countsBlocksCached++;
+    this.addToHashHistory(block);
+
+    if (this.countsBlocksCached > this.options.maxBlockCached) {
+      delete this.blocksByNumber[
+        this.lastBlock.number - this.options.maxBlockCached
+      ];
+      this.countsBlocksCached--;
+    }
+
+    /* delivered logs and transactions are only kept for blocks in cache */
+    const oldestCachedNumber =
+      this.lastBlock.number - this.options.maxBlockCached;
+    for (const number of Object.keys(this.deliveredLogsByBlock)) {
+      if (parseInt(number, 10) <= oldestCachedNumber) {
+        delete this.deliveredLogsByBlock[parseInt(number, 10)];
+      }
+    }
+    for (const number of Object.keys(this.transactionsByBlock)) {
+      if (parseInt(number, 10) <= oldestCachedNumber) {
+        delete this.transactionsByBlock[parseInt(number, 10)];
+      }
+    }
+  }
+
+  private addToHashHistory(block: BlockManager.BlockWithoutParentHash) {
+    this.blockHashHistory[block.number] = block.hash;
+    delete this.blockHashHistory[block.number - this.getMaxReorgDepth()];
+  }
+
+  /**
+   * Tell subscribers the oldest block they can still be rolled back to, older blocks are past the
+   * reorg window (see getMaxReorgDepth) or finalized.
+   */
+  private pruneSubscribers() {
+    let oldestRollbackNumber = this.lastBlock!.number - this.getMaxReorgDepth();
+    if (
+      this.options.confirmationDepth === "finalized" &&
+      this.lastConfirmedBlock
+    ) {
+      oldestRollbackNumber = Math.max(
+        oldestRollbackNumber,
+        this.lastConfirmedBlock.number
+      );
+    }
+    if (oldestRollbackNumber <= 0) {
+      return;
+    }
+
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.backfilling || !subscription.subscriber.prune) {
+        continue;
+      }
+      subscription.subscriber.prune(oldestRollbackNumber);
+    }
+  }
+
+  private getMaxReorgDepth(): number {
+    return Math.max(
+      this.options.maxReorgDepth || 0,
+      this.options.maxBlockCached
+    );
+  }
+
+  private recordDeliveredLog(log: Log, subscription: Subscription) {
+    const deliveredLogs = this.deliveredLogsByBlock[log.blockNumber] || [];
+    deliveredLogs.push({ log, handle: subscription.handle });
+    this.deliveredLogsByBlock[log.blockNumber] = deliveredLogs;
+  }
+
+  /**
+   * Remove and return logs delivered after `block`, newest first.
+   */
+  private popDeliveredLogsAfter(block: BlockManager.Block): DeliveredLog[] {
+    const removed: DeliveredLog[] = [];
+    const numbers = Object.keys(this.deliveredLogsByBlock)
+      .map((number) => parseInt(number, 10))
+      .filter((number) => number > block.number)
+      .sort((a, b) => b - a);
+    for (const number of numbers) {
+      removed.push(...this.deliveredLogsByBlock[number].reverse());
+      delete this.deliveredLogsByBlock[number];
+    }
+    return removed;
+  }
+
+  /**
+   * Find commonAncestor between RPC is the local cache.
+   * This methods compare blocks between cache and RPC until it finds a matching block.
+   * It return the matching block
+   * This methods compares blocks between cache and RPC until it finds a matching block.
+   * It return the matching block.
+   */
+  private async findCommonAncestor(
+    rec: number = 0
+  ): Promise<BlockManager.ErrorOrCommonAncestor> {
+    if (rec === this.options.maxRetryGetBlock) {
+      return { error: "FailedGetBlock", ok: undefined };
+    }
+
+    if (this.countsBlocksCached == 1) {
+      return {
+        error: "NoCommonAncestorFoundInCache",
+        ok: undefined,
+      };
+    }
+
+    const rpcBlocks = await this.options.getBlocksBatch(
+      this.lastBlock!.number - this.options.batchSize,
+      this.lastBlock!.number
+    );
+
+    if (rpcBlocks.error) {
+      await sleep(this.options.retryDelayGetBlockMs);
+      return this.findCommonAncestor(rec + 1);
+    }
+
+    const blocks = rpcBlocks.ok!;
+    for (let i = 0; i < this.countsBlocksCached; ++i) {
+      const currentBlockNumber = this.lastBlock!.number - i;
+
+      const fetchedBlock = blocks[blocks.length - 1 - i];
+
+      const cachedBlock = this.blocksByNumber[currentBlockNumber];
+      if (fetchedBlock.hash === cachedBlock.hash) {
+        return {
+          error: undefined,
+          ok: cachedBlock,
+        };
+      }
+    }
+
+    return { error: "NoCommonAncestorFoundInCache", ok: undefined };
+  }
+
+  /**
+   * Fetch the chain from this.lastBlock.number + 1 until newBlock.number.
+   * Try to reconstruct a valid chain in cache.
+   *
+   * A valid chain is a chain where blocks are chained with their successor with parentHash.
+   *
+   * block1(parentHash: "0x0", hash: "0x1") => block2("0x1", hash: "0x2")
+   */
+  private async populateValidChainUntilBlock(
+    newBlock: BlockManager.Block,
+    rec: number = 0
+  ): Promise<{
+    error: BlockManager.MaxRetryError | BlockManager.BlockError | undefined;
+  }> {
+    if (rec > this.options.maxRetryGetBlock) {
+      return { error: "MaxRetryReach" };
+    }
+
+    /* fetch all blocks between this.lastBlock excluded and newBlock included '*/
+    const blocksPromises: Promise<BlockManager.ErrorOrBlock>[] = [];
+    for (let i = this.lastBlock!.number + 1; i <= newBlock.number; ++i) {
+      blocksPromises.push(this.options.getBlock(i));
+    }
+
+    const blocks = await this.options.getBlocksBatch(
+      this.lastBlock!.number + 1,
+      newBlock.number
+    );
+
+    if (blocks.error) {
+      return this.populateValidChainUntilBlock(newBlock, rec + 1);
+    }
+
+    const _blocks = blocks.ok!;
+    for (const block of _blocks) {
+      /* check that queried block is chaining with lastBlock  */
+      if (this.lastBlock!.hash != block.parentHash) {
+        /* TODO: this.lastBlock.hash could have been reorg ? */
+
+        /* the getBlock might fail for some reason, wait retryDelayGetBlockMs to let it catch up*/
+        await sleep(this.options.retryDelayGetBlockMs);
+
+        /* retry until rec === maxRetryGetBlock */
+        return await this.populateValidChainUntilBlock(newBlock, rec + 1);
+      } else {
+        /* queried block is the successor of this.lastBlock add it to the cache */
+        this.setLastBlock(block);
+      }
+    }
+
+    return { error: undefined };
+  }
+
+  /**
+   * Walk back from the oldest cached block by parentHash with getBlock until a block matching
+   * blockHashHistory is found. Returns undefined if there is none in the last maxReorgDepth blocks.
+   */
+  private async findDeepCommonAncestor(): Promise<
+    BlockManager.Block | undefined
+  > {
+    const oldestCachedNumber =
+      this.lastBlock!.number - this.countsBlocksCached + 1;
+    if (this.blockHashHistory[oldestCachedNumber - 1] === undefined) {
+      return undefined; // no known hash older than the cache
+    }
+
+    let { error, ok: child } = await this.getBlockWithRetry(oldestCachedNumber);
+    if (error) {
+      return undefined;
+    }
+
+    for (
+      let number = oldestCachedNumber - 1;
+      this.blockHashHistory[number] !== undefined;
+      --number
+    ) {
+      const { error, ok: block } = await this.getBlockWithRetry(number);
+      if (error || block!.hash !== child!.parentHash) {
+        /* the rpc chain changed while walking back, let the caller re-initialize */
+        logger.warn("[BlockManager] findDeepCommonAncestor(): failure", {
+          data: { number, error },
+        });
+        return undefined;
+      }
+
+      if (this.blockHashHistory[number] === block!.hash) {
+        logger.info("[BlockManager] findDeepCommonAncestor(): found", {
+          data: { ancestor: block, lastBlock: this.lastBlock },
+        });
+        return block;
+      }
+      child = block;
+    }
+
+    return undefined;
+  }
+
+  private async getBlockWithRetry(
+    number: number,
+    rec: number = 0
+  ): Promise<BlockManager.ErrorOrBlock> {
+    const result = await this.options.getBlock(number);
+    if (result.error && rec < this.options.maxRetryGetBlock) {
+      await sleep(this.options.retryDelayGetBlockMs);
+      return this.getBlockWithRetry(number, rec + 1);
+    }
+    return result;
+  }
+
+  /**
+   * Rollback cache and subscribers to `ancestor` found below the cache, then handle all blocks
+   * until `newBlock` in batch.
+   */
+  private async recoverFromDeepReorg(
+    ancestor: BlockManager.Block,
+    newBlock: BlockManager.Block
+  ): Promise<BlockManager.ErrorOrReorg> {
+    const orphanedNumbers = Object.keys(this.blockHashHistory)
+      .map((number) => parseInt(number, 10))
+      .filter((number) => number > ancestor.number)
+      .sort((a, b) => a - b);
+
+    this.emit("reorg", {
+      ancestor,
+      depth: this.lastBlock!.number - ancestor.number,
+      orphanedHashes: orphanedNumbers.map(
+        (number) => this.blockHashHistory[number]
+      ),
+    });
+
+    orphanedNumbers.forEach((number) => delete this.blockHashHistory[number]);
+    this.lastBlock = ancestor;
+    this.blocksByNumber = { [ancestor.number]: ancestor };
+    this.transactionsByBlock = {};
+    this.countsBlocksCached = 1;
+
+    await this.rollbackSubscribers(ancestor);
+
+    const { error, ok } = await this.handleBatchBlock(newBlock, true);
+    if (error) {
+      logger.warn("[BlockManager] recoverFromDeepReorg(): failure", {
+        data: { error, ancestor, newBlock },
+      });
+      return { error: { error: "FailedGetBlock" }, ok: undefined };
+    }
+
+    await this.handleSubscribersInitialize(newBlock);
+
+    return {
+      error: {
+        error: "DeepReorgRecovered",
+        recovered: { logs: ok!.logs, rollback: ancestor },
+      },
+      ok: undefined,
+    };
+  }
+
+  /**
+   * Establish a valid chain with last block = newBlock.number.
+   *
+   * Returns found commonAncestor.   */
+  private async handleReorg(
+    newBlock: BlockManager.Block
+  ): Promise<BlockManager.ErrorOrReorg> {
+    let { error, ok: commonAncestor } = await this.findCommonAncestor();
 
     if (error) {
       logger.warn(`[BlockManager] handleReorg(): failure ${error}`);
       if (error === "NoCommonAncestorFoundInCache") {
+        /* the reorg may be deeper than the cache, search the fork point in known hashes */
+        const deepAncestor = await this.findDeepCommonAncestor();
+        if (deepAncestor && deepAncestor.number < newBlock.number) {
+          return this.recoverFromDeepReorg(deepAncestor, newBlock);
+        }
+
         /* we didn't find matching ancestor between our cache and rpc. re-initialize with newBlock */
-        await this.initialize(newBlock);
+        await this.initializeCache(newBlock, false);
+        this.emit("reinitialize", { block: newBlock, reason: error });
+        return {
+          error: {
+            error: "ReInitializeBlockManager",
+            reInitialize: newBlock,
+          },
+          ok: undefined,
+        };
+      }
+      /* findCommonAncestor did not succeed, bail out */
+      return {
+        error: {
+          error: "FailedGetBlock",
+        },
+        ok: undefined,
+      };
+    }
+
+    logger.debug("[BlockManager] handleReorg(): commonAncestor", {
+      data: {
+        commonAncestor,
+      },
+    });
+
+    const orphanedHashes: string[] = [];
+
+    /* remove all blocks that has been reorged from cache */
+    for (let i = commonAncestor!.number + 1; i <= this.lastBlock!.number; ++i) {
+      if (this.blocksByNumber[i]) {
+        orphanedHashes.push(this.blocksByNumber[i].hash);
+      }
+      delete this.blocksByNumber[i];
+      delete this.blockHashHistory[i];
+      delete this.transactionsByBlock[i];
+      this.countsBlocksCached--;
+    }
+
+    this.emit("reorg", {
+      ancestor: commonAncestor!,
+      depth: this.lastBlock!.number - commonAncestor!.number,
+      orphanedHashes,
+    });
+
+    /* commonAncestor is the new cache latest block */
+    this.lastBlock = commonAncestor;
+
+    await this.populateValidChainUntilBlock(newBlock);
+
+    return { error: undefined, ok: commonAncestor! };
+  }
+  /**
+   * getLogs calls options.getLogs between from (included) and to (included). Ranges larger than
+   * maxLogsBlockSpan are split, and when the rpc rejects a range because of its limits the range is
+   * bisected recursively and the new maximum span is remembered. Logs are returned in order.
+   */
+  private async getLogs(
+    from: number,
+    to: number,
+    addressesAndTopics: BlockManager.AddressAndTopics[]
+  ): Promise<BlockManager.ErrorOrLogs> {
+    const span = to - from + 1;
+    if (this.maxLogsBlockSpan !== undefined && span > this.maxLogsBlockSpan) {
+      return this.getLogsSplit(
+        from,
+        from + this.maxLogsBlockSpan - 1,
+        to,
+        addressesAndTopics
+      );
+    }
+
+    const result = await this.options.getLogs(from, to, addressesAndTopics);
+    if (!result.error || span <= 1 || !isLogsRangeLimitError(result.error)) {
+      return result;
+    }
+
+    const halfSpan = Math.ceil(span / 2);
+    logger.warn("[BlockManager] getLogs(): range too large, bisecting", {
+      data: { from, to, maxLogsBlockSpan: halfSpan, error: result.error },
+    });
+    this.maxLogsBlockSpan = halfSpan;
+
+    return this.getLogsSplit(from, from + halfSpan - 1, to, addressesAndTopics);
+  }
+
+  /**
+   * Get logs between from and middle (included), then between middle + 1 and to (included).
+   */
+  private async getLogsSplit(
+    from: number,
+    middle: number,
+    to: number,
+    addressesAndTopics: BlockManager.AddressAndTopics[]
+  ): Promise<BlockManager.ErrorOrLogs> {
+    const left = await this.getLogs(from, middle, addressesAndTopics);
+    if (left.error) {
+      return left;
+    }
+
+    const right = await this.getLogs(middle + 1, to, addressesAndTopics);
+    if (right.error) {
+      return right;
+    }
+
+    return {
+      error: undefined,
+      ok: [
+        ...(Array.isArray(left.ok) ? left.ok : []),
+        ...(Array.isArray(right.ok) ? right.ok : []),
+      ],
+    };
+  }
+
+  /**
+   *
+   * queryLogs function tries to get logs between fromBlock (excluded) to toBlock (included). This
+   * function handles retry and reorg. The function expect that all blocks between fromBlock and toBlock
+   * included are available in this.blocksByNumber.
+   **/
+  private async queryLogs(
+    fromBlock: BlockManager.Block,
+    toBlock: BlockManager.Block,
+    rec = 0,
+    commonAncestor?: BlockManager.Block,
+    blocksMap?: Record<number, BlockManager.Block>
+  ): Promise<BlockManager.ErrorOrLogsWithCommonAncestor> {
+    logger.debug("[BlockManager] queryLogs()", {
+      data: {
+        fromBlock,
+        toBlock,
+      },
+    });
+    if (rec > this.options.maxRetryGetLogs) {
+      return {
+        error: {
+          error: "MaxRetryReach",
+        },
+        ok: undefined,
+      };
+    }
+
+    const { error, ok } = await this.getLogs(
+      fromBlock.number + 1,
+      toBlock.number,
+      this.getSubscribedAddressesAndTopics()
+    );
+
+    /* if getLogs fail retry this.options.maxRetryGetLogs  */
+    if (error) {
+      /* the rpc might be a bit late, wait retryDelayGetLogsMs to let it catch up */
+      await sleep(this.options.retryDelayGetLogsMs);
+
+      if (
+        !error.includes("not processed yet") &&
+        !error.includes("cannot be found")
+      ) {
+        logger.error("[BlockManager] queryLogs(): failure", {
+          data: {
+            error,
+            fromBlock,
+            toBlock,
+          },
+        });
+      }
+      return this.queryLogs(fromBlock, toBlock, rec + 1);
+    }
+
+    let logs = ok!;
+    if (!Array.isArray(logs)) {
+      logs = [];
+    }
+
+    /* DIRTY: if we detected a reorg we already repopulate the chain until toBlock.number */
+    if (!commonAncestor && !blocksMap) {
+      this.setLastBlock(toBlock);
+    }
+
+    for (const log of logs) {
+      const block = blocksMap
+        ? blocksMap[log.blockNumber]
+        : this.blocksByNumber[log.blockNumber]; // TODO: verify that block exists
+
+      if (!block) {
         return {
           error: {
-            error: "ReInitializeBlockManager",
-            reInitialize: newBlock,
+            error: "FailedFetchingLog",
           },
           ok: undefined,
         };
       }
-      /* findCommonAncestor did not succeed, bail out */
-      return {
-        error: {
-          error: "FailedGetBlock",
-        },
-        ok: undefined,
+
+      /* check if queried log comes from a known block in our cache */
+      if (block.hash !== log.blockHash) {
+        /* queried log comes from a block we don't know => we detected a reorg */
+        const { error: reorgError, ok: _commonAncestor } =
+          await this.handleReorg(toBlock);
+
+        if (reorgError) {
+          return {
+            error: {
+              error: reorgError.error,
+              reInitialize: reorgError.reInitialize,
+              recovered: reorgError.recovered,
+            },
+            ok: undefined,
+          };
+        }
+        /** Our cache is consistent again we retry queryLogs,
+         * we should retry with from = _commonAncestor, to get all rollbacked events.
+         * */
+        return this.queryLogs(
+          _commonAncestor,
+          toBlock,
+          rec + 1,
+          _commonAncestor
+        );
+      }
+    }
+
+    return {
+      error: undefined,
+      ok: {
+        logs,
+        commonAncestor: commonAncestor,
+      },
+    };
+  }
+
+  /**
+   * Call initialize on all subscribers in waitingToBeInitializedSet.
+   */
+  private async handleSubscribersInitialize(
+    block: BlockManager.BlockWithoutParentHash
+  ): Promise<void> {
+    if (
+      this.waitingToBeInitializedSet.size === 0 // if there is nothing to do bail out
+    ) {
+      return;
+    }
+
+    /* a subscriber is initialized once all its dependencies are */
+    const levels = this.getDependencyLevels()
+      .map((level) =>
+        level.filter((subscription) =>
+          this.waitingToBeInitializedSet.has(subscription.handle)
+        )
+      )
+      .filter((level) => level.length > 0);
+    this.waitingToBeInitializedSet = new Set();
+
+    const toInitialize = levels.flat();
+    const results: LogSubscriber.InitializeErrorOrBlock[] = [];
+    for (const level of levels) {
+      results.push(
+        ...(await Promise.all(
+          level.map((subscription) => subscription.subscriber.initialize(block))
+        ))
+      );
+    }
+
+    for (const [i, res] of Object.entries(results)) {
+      const subscription = toInitialize[parseInt(i, 10)];
+      if (!this.isSubscribed(subscription)) {
+        /* unsubscribed while initializing */
+        continue;
+      }
+      if (res) {
+        /* initialize call failed retry later by adding it back to the set */
+        this.waitingToBeInitializedSet.add(subscription.handle);
+        this.emitSubscriberInitFailed(subscription, block, res);
+      } else {
+        const subscriber = subscription.subscriber;
+        subscriber.initializedAt = block;
+        subscriber.lastSeenEventBlock = block;
+        subscription.resumedAt = undefined;
+        logger.debug("[BlockManager] subscriberInitialize()", {
+          data: {
+            address: subscription.address,
+            handle: subscription.handle,
+            block,
+          },
+        });
+      }
+    }
+  }
+
+  private emitSubscriberInitFailed(
+    subscription: Subscription | ConfirmedSubscription,
+    block: BlockManager.BlockWithoutParentHash,
+    error: LogSubscriber.Error
+  ) {
+    logger.warn("[BlockManager] subscriberInitialize(): failure", {
+      data: {
+        handle: subscription.handle,
+        address: subscription.address,
+        error,
+      },
+    });
+    this.emit("subscriberInitFailed", {
+      handle: subscription.handle,
+      address: subscription.address,
+      block,
+      error,
+    });
+  }
+
+  /**
+   * Return true if the subscription is initialized and expects `log`.
+   */
+  private subscriptionWantsLog(
+    subscription: Subscription | ConfirmedSubscription,
+    log: Log
+  ): boolean {
+    return (
+      this.subscriptionIsLiveAt(subscription, log.blockNumber) &&
+      subscription.address === log.address &&
+      logMatchesTopics(log, subscription.topics)
+    );
+  }
+
+  /**
+   * Return true if the subscription is initialized and block `number` is not part of its state yet.
+   */
+  private subscriptionIsLiveAt(
+    subscription: Subscription | ConfirmedSubscription,
+    number: number
+  ): boolean {
+    const startBlock =
+      subscription.resumedAt || subscription.subscriber.initializedAt;
+    return !(
+      (
+        !startBlock ||
+        !this.isSubscribed(subscription) || // unsubscribed while applying logs
+        ("backfilling" in subscription && subscription.backfilling) ||
+        this.waitingToBeInitializedSet.has(subscription.handle) ||
+        this.waitingToBeInitializedConfirmedSet.has(subscription.handle) ||
+        number <= startBlock.number
+      ) // already part of the initialized (or resumed) state
+    );
+  }
+
+  /**
+   * Return block `number` from mode.blocksMap or the cache, built from `log` if unknown.
+   */
+  private getAppliedBlock(
+    number: number,
+    mode: Pick<ApplyLogsMode, "blocksMap">,
+    log?: Log
+  ): BlockManager.Block | undefined {
+    return (
+      (mode.blocksMap && mode.blocksMap[number]) ||
+      this.blocksByNumber[number] ||
+      (log && { number, hash: log.blockHash, parentHash: "" })
+    );
+  }
+
+  private getHandleLogContext(
+    log: Log,
+    mode: ApplyLogsMode
+  ): LogSubscriber.HandleLogContext {
+    const block = this.getAppliedBlock(log.blockNumber, mode, log)!;
+    return {
+      block,
+      head: mode.head,
+      confirmations: mode.head - log.blockNumber,
+      replayed: mode.replayed,
+      catchUp: mode.catchUp,
+    };
+  }
+
+  /**
+   * Get transaction and receipt of `logs`. Missing transactions are fetched with one
+   * getTransactionsAndReceipts call per block, and cached while the block is in cache.
+   * Logs are shared by subscriptions so they are left untouched, see getSubscriptionLog.
+   */
+  private async enrichLogs(
+    logs: Log[]
+  ): Promise<Map<Log, BlockManager.TransactionAndReceipt>> {
+    const transactions = new Map<Log, BlockManager.TransactionAndReceipt>();
+    const logsByBlock: Record<number, Log[]> = {};
+    for (const log of logs) {
+      logsByBlock[log.blockNumber] = logsByBlock[log.blockNumber] || [];
+      logsByBlock[log.blockNumber].push(log);
+    }
+
+    for (const blockLogs of Object.values(logsByBlock)) {
+      const { blockNumber, blockHash } = blockLogs[0];
+      let cached = this.transactionsByBlock[blockNumber];
+      if (!cached || cached.hash !== blockHash) {
+        cached = { hash: blockHash, transactions: {} };
+      }
+
+      const missingHashes = Array.from(
+        new Set(
+          blockLogs
+            .map((log) => log.transactionHash)
+            .filter((hash) => !cached.transactions[hash])
+        )
+      );
+      if (missingHashes.length > 0) {
+        const { error, ok } = await this.getTransactionsAndReceipts(
+          missingHashes
+        );
+        if (error) {
+          logger.error("[BlockManager] enrichLogs(): failure", {
+            data: { blockNumber, blockHash, error },
+          });
+        } else {
+          Object.assign(cached.transactions, ok);
+        }
+      }
+
+      const cachedBlock = this.blocksByNumber[blockNumber];
+      if (cachedBlock && cachedBlock.hash === blockHash) {
+        this.transactionsByBlock[blockNumber] = cached;
+      }
+
+      for (const log of blockLogs) {
+        const transactionAndReceipt = cached.transactions[log.transactionHash];
+        if (transactionAndReceipt) {
+          transactions.set(log, transactionAndReceipt);
+        }
+      }
+    }
+    return transactions;
+  }
+
+  /**
+   * Log to deliver to `subscription`, a copy with transaction and receipt attached for enriched
+   * subscriptions so other subscriptions never see them.
+   */
+  private getSubscriptionLog(
+    subscription: Subscription,
+    log: Log,
+    mode: ApplyLogsMode
+  ): Log {
+    const transactionAndReceipt =
+      subscription.options.enrich && mode.transactions?.get(log);
+    if (!transactionAndReceipt) {
+      return log;
+    }
+    const enriched: BlockManager.EnrichedLog = {
+      ...log,
+      ...transactionAndReceipt,
+    };
+    return enriched;
+  }
+
+  private async getTransactionsAndReceipts(
+    hashes: string[],
+    rec: number = 0
+  ): Promise<BlockManager.ErrorOrTransactions> {
+    const result = await this.options.getTransactionsAndReceipts!(hashes);
+    if (result.error && rec < this.options.maxRetryGetLogs) {
+      await sleep(this.options.retryDelayGetLogsMs);
+      return this.getTransactionsAndReceipts(hashes, rec + 1);
+    }
+    return result;
+  }
+
+  /**
+   * Call handleLog of `subscription` subscriber, on failure apply its failure policy.
+   * Returns true if the log has been handled.
+   */
+  private async deliverLog(
+    subscription: Subscription,
+    log: Log,
+    ctx: LogSubscriber.HandleLogContext
+  ): Promise<boolean> {
+    const handled = await this.callSubscriber(
+      subscription,
+      { callback: "handleLog", log },
+      () => subscription.subscriber.handleLog(log, undefined, ctx)
+    );
+    if (handled) {
+      subscription.subscriber.lastSeenEventBlock = {
+        number: log.blockNumber,
+        hash: log.blockHash,
       };
     }
+    return handled;
+  }
+
+  /**
+   * Call `fn` (a callback of `subscription` subscriber), on failure retry then apply its failure
+   * policy. Returns true if the callback succeeded.
+   */
+  private async callSubscriber(
+    subscription: Subscription,
+    call: Pick<BlockManager.DeadLetter, "callback" | "log" | "block">,
+    fn: () => Promise<void> | void
+  ): Promise<boolean> {
+    const policy = subscription.options.failurePolicy || DEFAULT_FAILURE_POLICY;
+    for (let retry = 0; ; ++retry) {
+      try {
+        await fn();
+        return true;
+      } catch (e) {
+        if (retry < (policy.maxRetries || 0)) {
+          logger.warn(
+            `[BlockManager] callSubscriber(): ${call.callback} failed, retrying`,
+            {
+              data: { handle: subscription.handle, retry, error: e },
+            }
+          );
+          await sleep((policy.retryDelayMs || 0) * 2 ** retry);
+          continue;
+        }
+        await this.handleFailedCall(subscription, call, e, policy);
+        return false;
+      }
+    }
+  }
+
+  private async handleFailedCall(
+    subscription: Subscription,
+    call: Pick<BlockManager.DeadLetter, "callback" | "log" | "block">,
+    error: unknown,
+    policy: BlockManager.FailurePolicy
+  ) {
+    logger.error("[BlockManager] handleFailedCall()", {
+      data: {
+        handle: subscription.handle,
+        address: subscription.address,
+        ...call,
+        error,
+        action: policy.action,
+      },
+    });
+
+    const deadLetter: BlockManager.DeadLetter = {
+      handle: subscription.handle,
+      address: subscription.address,
+      ...call,
+      error,
+      action: policy.action,
+    };
+    this.emit("deadLetter", deadLetter);
+    if (policy.deadLetter) {
+      try {
+        await policy.deadLetter(deadLetter);
+      } catch (e) {
+        logger.error("[BlockManager] handleFailedCall(): deadLetter failed", {
+          data: { handle: subscription.handle, error: e },
+        });
+      }
+    }
+
+    if (policy.action === "stop") {
+      throw error;
+    }
+    if (policy.action === "quarantine") {
+      /* no more logs until it's initialized again with the next handled block */
+      this.waitingToBeInitializedSet.add(subscription.handle);
+    }
+  }
+
+  /**
+   * For each logs find all matching subscriptions (address and topics), then call handle log on their subscriber
+   */
+  private async applyLogs(logs: Log[], mode: ApplyLogsMode) {
+    if (this.subscriptions.size === 0) {
+      return;
+    }
+
+    logs.forEach((log) => (log.address = getAddress(log.address)));
+    const transactions = await this.enrichLogs(
+      logs.filter((log) =>
+        Array.from(this.subscriptions.values()).some(
+          (subscription) =>
+            subscription.options.enrich &&
+            this.subscriptionWantsLog(subscription, log)
+        )
+      )
+    );
+    mode = { ...mode, transactions, delivered: new Set() };
+
+    const blocks = this.groupLogsByBlock(logs, mode);
+
+    if (this.hasDependencies()) {
+      await this.applyLogsByDependencies(blocks, mode);
+      return;
+    }
+
+    if (this.options.parallelDispatch) {
+      await this.applyLogsInParallel(blocks, mode);
+      return;
+    }
+
+    for (const { block, logs: blockLogs } of blocks) {
+      const hooked = Array.from(this.subscriptions.values()).filter(
+        (subscription) =>
+          this.subscriptionWantsBlock(subscription, block, blockLogs)
+      );
+      for (const subscription of hooked) {
+        await this.callBlockHook(subscription, "onBlockStart", block);
+      }
+
+      for (const log of blockLogs) {
+        for (const subscription of Array.from(this.subscriptions.values())) {
+          if (!this.subscriptionWantsLog(subscription, log)) {
+            continue;
+          }
+          await this.applyLog(subscription, log, mode); // await log one by one to insure consitent state between listener
+        }
+        this.emitDeliveredLogs([log], mode);
+      }
+
+      for (const subscription of hooked) {
+        await this.callBlockHook(subscription, "onBlockEnd", block);
+      }
+
+      for (const subscription of Array.from(this.subscriptions.values())) {
+        this.notifyBlockHandled(subscription, block);
+      }
+    }
+  }
+
+  /**
+   * Each subscription gets its own ordered queue of logs, queues are drained concurrently.
+   * If a subscriber with the "stop" failure policy fails, the error is thrown once every queue is drained.
+   */
+  private async applyLogsInParallel(blocks: BlockLogs[], mode: ApplyLogsMode) {
+    const results = await Promise.allSettled(
+      Array.from(this.subscriptions.values()).map(async (subscription) => {
+        for (const { block, logs } of blocks) {
+          await this.applySubscriptionBlock(subscription, block, logs, mode);
+        }
+      })
+    );
+
+    blocks.forEach(({ logs }) => this.emitDeliveredLogs(logs, mode));
+
+    for (const result of results) {
+      if (result.status === "rejected") {
+        throw result.reason;
+      }
+    }
+  }
+
+  /**
+   * Logs are applied block by block, in each block a subscription handles its logs once all its
+   * dependencies handled theirs. With parallelDispatch, subscriptions of the same level run concurrently.
+   */
+  private async applyLogsByDependencies(
+    blocks: BlockLogs[],
+    mode: ApplyLogsMode
+  ) {
+    const levels = this.getDependencyLevels();
+
+    for (const { block, logs } of blocks) {
+      for (const level of levels) {
+        const applyBlockLogs = (subscription: Subscription) =>
+          this.applySubscriptionBlock(subscription, block, logs, mode);
+
+        if (!this.options.parallelDispatch) {
+          for (const subscription of level) {
+            await applyBlockLogs(subscription);
+          }
+          continue;
+        }
+
+        const results = await Promise.allSettled(level.map(applyBlockLogs));
+        for (const result of results) {
+          if (result.status === "rejected") {
+            throw result.reason;
+          }
+        }
+      }
+      this.emitDeliveredLogs(logs, mode);
+    }
+  }
+
+  private emitDeliveredLogs(logs: Log[], mode: ApplyLogsMode) {
+    for (const log of logs) {
+      if (mode.delivered && mode.delivered.has(log)) {
+        this.emit("log", log);
+      }
+    }
+  }
+
+  /**
+   * Apply the logs of `block` expected by `subscription`, between its onBlockStart and onBlockEnd hooks.
+   */
+  private async applySubscriptionBlock(
+    subscription: Subscription,
+    block: BlockManager.Block,
+    logs: Log[],
+    mode: ApplyLogsMode
+  ) {
+    const hooked = this.subscriptionWantsBlock(subscription, block, logs);
+    if (hooked) {
+      await this.callBlockHook(subscription, "onBlockStart", block);
+    }
+
+    for (const log of logs) {
+      /* checked before each log as the subscription may be quarantined or unsubscribed */
+      if (this.subscriptionWantsLog(subscription, log)) {
+        await this.applyLog(subscription, log, mode);
+      }
+    }
+
+    if (hooked) {
+      await this.callBlockHook(subscription, "onBlockEnd", block);
+    }
+
+    this.notifyBlockHandled(subscription, block);
+  }
+
+  /**
+   * Call onBlockHandled of `subscription` if `block` is part of its state.
+   */
+  private notifyBlockHandled(
+    subscription: Subscription,
+    block: BlockManager.Block
+  ) {
+    if (
+      subscription.subscriber.onBlockHandled &&
+      this.subscriptionIsLiveAt(subscription, block.number)
+    ) {
+      subscription.subscriber.onBlockHandled(block);
+    }
+  }
+
+  /**
+   * Sort `logs` and group them by block, every block from mode.fromBlock to mode.toBlock is
+   * returned even without logs so that subscribers can be notified of empty blocks.
+   */
+  private groupLogsByBlock(logs: Log[], mode: ApplyLogsMode): BlockLogs[] {
+    const logsByNumber: Record<number, Log[]> = {};
+    for (let number = mode.fromBlock; number <= mode.toBlock; ++number) {
+      logsByNumber[number] = [];
+    }
+    for (const log of [...logs].sort(compareLogs)) {
+      logsByNumber[log.blockNumber] = logsByNumber[log.blockNumber] || [];
+      logsByNumber[log.blockNumber].push(log);
+    }
+
+    return Object.keys(logsByNumber)
+      .map((number) => parseInt(number, 10))
+      .sort((a, b) => a - b)
+      .map((number) => ({
+        block: this.getAppliedBlock(number, mode, logsByNumber[number][0]),
+        logs: logsByNumber[number],
+      }))
+      .filter((blockLogs): blockLogs is BlockLogs => !!blockLogs.block);
+  }
+
+  /**
+   * Return true if `subscription` has block hooks and expects them for `block`, either because it
+   * expects some of its logs or because it subscribed with `emptyBlocks`.
+   */
+  private subscriptionWantsBlock(
+    subscription: Subscription,
+    block: BlockManager.Block,
+    logs: Log[]
+  ): boolean {
+    const { subscriber } = subscription;
+    if (!subscriber.onBlockStart && !subscriber.onBlockEnd) {
+      return false;
+    }
+
+    if (logs.some((log) => this.subscriptionWantsLog(subscription, log))) {
+      return true;
+    }
 
-    logger.debug("[BlockManager] handleReorg(): commonAncestor", {
-      data: {
-        commonAncestor,
-      },
-    });
+    return (
+      !!subscription.options.emptyBlocks &&
+      this.subscriptionIsLiveAt(subscription, block.number)
+    );
+  }
 
-    /* remove all blocks that has been reorged from cache */
-    for (let i = commonAncestor!.number + 1; i <= this.lastBlock!.number; ++i) {
-      delete this.blocksByNumber[i];
-      this.countsBlocksCached--;
+  private async callBlockHook(
+    subscription: Subscription,
+    hook: "onBlockStart" | "onBlockEnd",
+    block: BlockManager.Block
+  ) {
+    const subscriber = subscription.subscriber;
+    if (!subscriber[hook]) {
+      return;
     }
 
-    /* commonAncestor is the new cache latest block */
-    this.lastBlock = commonAncestor;
-
-    await this.populateValidChainUntilBlock(newBlock);
+    const called = await this.callSubscriber(
+      subscription,
+      { callback: hook, block: { number: block.number, hash: block.hash } },
+      () => subscriber[hook]!(block)
+    );
+    if (!called) {
+      return;
+    }
+    logger.debug(
+      `[BlockManager] ${hook}() (${block.hash}, ${block.number}) (handle: ${subscription.handle})`
+    );
+  }
 
-    return { error: undefined, ok: commonAncestor! };
+  private hasDependencies(): boolean {
+    return Array.from(this.subscriptions.values()).some(
+      (subscription) => (subscription.options.dependsOn || []).length > 0
+    );
   }
+
   /**
-   *
-   * queryLogs function tries to get logs between fromBlock (excluded) to toBlock (included). This
-   * function handles retry and reorg. The function expect that all blocks between fromBlock and toBlock
-   * included are available in this.blocksByNumber.
-   **/
-  private async queryLogs(
-    fromBlock: BlockManager.Block,
-    toBlock: BlockManager.Block,
-    rec = 0,
-    commonAncestor?: BlockManager.Block,
-    blocksMap?: Record<number, BlockManager.Block>
-  ): Promise<BlockManager.ErrorOrLogsWithCommonAncestor> {
-    logger.debug("[BlockManager] queryLogs()", {
-      data: {
-        fromBlock,
-        toBlock,
-      },
-    });
-    if (rec > this.options.maxRetryGetLogs) {
-      return {
-        error: {
-          error: "MaxRetryReach",
-        },
-        ok: undefined,
-      };
+   * Group subscriptions by dependency depth, a subscription is in a level after all its dependencies.
+   * Dependencies are subscribed first so subscriptions are visited in topological order.
+   */
+  private getDependencyLevels(): Subscription[][] {
+    const levels: Subscription[][] = [];
+    const levelByHandle: Record<BlockManager.SubscriptionHandle, number> = {};
+    for (const subscription of this.subscriptions.values()) {
+      const level = (subscription.options.dependsOn || []).reduce(
+        (acc, handle) =>
+          handle in levelByHandle /* ignore unsubscribed dependencies */
+            ? Math.max(acc, levelByHandle[handle] + 1)
+            : acc,
+        0
+      );
+      levelByHandle[subscription.handle] = level;
+      levels[level] = [...(levels[level] || []), subscription];
     }
+    return levels;
+  }
 
-    const { error, ok } = await this.options.getLogs(
-      fromBlock.number + 1,
-      toBlock.number,
-      this.subscribedAddresses
+  private async applyLog(
+    subscription: Subscription,
+    log: Log,
+    mode: ApplyLogsMode
+  ) {
+    const delivered = await this.deliverLog(
+      subscription,
+      this.getSubscriptionLog(subscription, log, mode),
+      this.getHandleLogContext(log, mode)
     );
+    if (!delivered) {
+      return;
+    }
+    this.recordDeliveredLog(log, subscription);
+    if (mode.delivered) {
+      mode.delivered.add(log);
+    }
+    logger.debug(
+      `[BlockManager] handleLog() ${log.address} (${log.blockHash}, ${log.blockNumber}) (handle: ${subscription.handle})`
+    );
+  }
 
-    /* if getLogs fail retry this.options.maxRetryGetLogs  */
-    if (error) {
-      /* the rpc might be a bit late, wait retryDelayGetLogsMs to let it catch up */
-      await sleep(this.options.retryDelayGetLogsMs);
-
+  /**
+   * Deliver logs orphaned after block to handleRemovedLog (newest first), then call rollback
+   * subscriber on all subscriber with lastSeenEventBlockNumber > block.number,
+   * schedule re-initialize for subscriber with initializedAt > block.number.
+   * Subscribers are visited in reverse dependency order, dependents before their dependencies.
+   */
+  private async rollbackSubscribers(block: BlockManager.Block) {
+    /* a failing handleRemovedLog must not interrupt the rollback: delivered logs are already popped,
+     * so failed subscriptions stop receiving removed logs and a `stop` error is rethrown at the end */
+    const failedHandles = new Set<BlockManager.SubscriptionHandle>();
+    let stopError: unknown;
+    for (const { log, handle } of this.popDeliveredLogsAfter(block)) {
+      const subscription = this.subscriptions.get(handle);
       if (
-        !error.includes("not processed yet") &&
-        !error.includes("cannot be found")
+        !subscription ||
+        !subscription.subscriber.handleRemovedLog ||
+        failedHandles.has(handle)
       ) {
-        logger.error("[BlockManager] queryLogs(): failure", {
+        continue;
+      }
+      const removedLog = { ...log, removed: true };
+      let handled = false;
+      try {
+        handled = await this.callSubscriber(
+          subscription,
+          { callback: "handleRemovedLog", log: removedLog },
+          () => subscription.subscriber.handleRemovedLog!(removedLog)
+        );
+      } catch (e) {
+        stopError = stopError || e;
+      }
+      if (!handled) {
+        failedHandles.add(handle);
+        continue;
+      }
+      logger.debug(
+        `[BlockManager] handleRemovedLog() ${log.address} (${log.blockHash}, ${log.blockNumber}) (handle: ${handle})`
+      );
+    }
+
+    for (const subscription of this.getDependencyLevels().flat().reverse()) {
+      const { handle, address, subscriber } = subscription;
+      const startBlock = subscription.resumedAt || subscriber.initializedAt;
+      if (!startBlock || subscription.backfilling) {
+        /* subscriber is still waiting for its first initialization */
+        continue;
+      }
+
+      if (startBlock.number > block.number) {
+        /* subscriber has been initialized (or resumed) at a block newer than block
+         * it needs to be initialized again.
+         **/
+        this.waitingToBeInitializedSet.add(handle);
+        logger.info("[BlockManager] addToInitializeList()", {
           data: {
-            error,
-            fromBlock,
-            toBlock,
+            address,
+            handle,
+            initializedAt: subscriber.initializedAt,
+            block,
+          },
+        });
+      } else if (
+        subscriber.lastSeenEventBlock &&
+        subscriber.lastSeenEventBlock.number > block.number
+      ) {
+        subscriber.rollback(block);
+        subscriber.lastSeenEventBlock = block;
+        logger.info("[BlockManager] rollback()", {
+          data: {
+            address,
+            handle,
+            block,
           },
         });
       }
-      return this.queryLogs(fromBlock, toBlock, rec + 1);
-    }
-
-    let logs = ok!;
-    if (!Array.isArray(logs)) {
-      logs = [];
     }
 
-    /* DIRTY: if we detected a reorg we already repopulate the chain until toBlock.number */
-    if (!commonAncestor && !blocksMap) {
-      this.setLastBlock(toBlock);
+    if (stopError) {
+      throw stopError;
     }
+  }
 
-    for (const log of logs) {
-      const block = blocksMap
-        ? blocksMap[log.blockNumber]
-        : this.blocksByNumber[log.blockNumber]; // TODO: verify that block exists
-
-      if (!block) {
-        return {
-          error: {
-            error: "FailedFetchingLog",
-          },
-          ok: undefined,
-        };
+  /**
+   * Return the latest confirmed block according to options.confirmationDepth.
+   */
+  private async getConfirmedBlock(): Promise<BlockManager.ErrorOrBlock> {
+    if (this.options.confirmationDepth === "finalized") {
+      const { error, ok } = await this.options.getFinalizedBlock!();
+      if (error) {
+        return { error, ok: undefined };
       }
-
-      /* check if queried log comes from a known block in our cache */
-      if (block.hash !== log.blockHash) {
-        /* queried log comes from a block we don't know => we detected a reorg */
-        const { error: reorgError, ok: _commonAncestor } =
-          await this.handleReorg(toBlock);
-
-        if (reorgError) {
-          return {
-            error: {
-              error: reorgError.error,
-            },
-            ok: undefined,
-          };
-        }
-        /** Our cache is consistent again we retry queryLogs,
-         * we should retry with from = _commonAncestor, to get all rollbacked events.
-         * */
-        return this.queryLogs(
-          _commonAncestor,
-          toBlock,
-          rec + 1,
-          _commonAncestor
-        );
+      if (ok.number > this.lastBlock!.number) {
+        /* rpc is ahead of us, only confirm blocks we already handled */
+        return this.getConfirmedBlockByNumber(this.lastBlock!.number);
       }
+      return { error: undefined, ok };
     }
 
-    return {
-      error: undefined,
-      ok: {
-        logs,
-        commonAncestor: commonAncestor,
-      },
-    };
+    return this.getConfirmedBlockByNumber(
+      this.lastBlock!.number - this.options.confirmationDepth!
+    );
+  }
+
+  private async getConfirmedBlockByNumber(
+    blockNumber: number
+  ): Promise<BlockManager.ErrorOrBlock> {
+    if (blockNumber < 0) {
+      return { error: "BlockNotFound", ok: undefined };
+    }
+    const cachedBlock = this.blocksByNumber[blockNumber];
+    if (cachedBlock) {
+      return { error: undefined, ok: cachedBlock };
+    }
+    return this.options.getBlock(blockNumber);
   }
 
   /**
-   * Call initialize on all subscribers in waitingToBeInitializedSet.
+   * Call initialize at lastConfirmedBlock on all confirmed subscribers in waitingToBeInitializedConfirmedSet.
    */
-  private async handleSubscribersInitialize(
-    block: BlockManager.BlockWithoutParentHash
-  ): Promise<void> {
-    if (
-      this.waitingToBeInitializedSet.size === 0 // if there is nothing to do bail out
-    ) {
+  private async handleConfirmedSubscribersInitialize(): Promise<void> {
+    if (this.waitingToBeInitializedConfirmedSet.size === 0) {
       return;
     }
 
-    const toInitialize = Array.from(this.waitingToBeInitializedSet);
-    this.waitingToBeInitializedSet = new Set();
+    if (!this.lastConfirmedBlock) {
+      const { error, ok } = await this.getConfirmedBlock();
+      if (error) {
+        logger.debug(
+          "[BlockManager] handleConfirmedSubscribersInitialize(): no confirmed block yet",
+          { data: { error } }
+        );
+        return;
+      }
+      this.lastConfirmedBlock = { number: ok.number, hash: ok.hash };
+    }
 
-    const promises = toInitialize.map((address) =>
-      this.subscribersByAddress[address].initialize(block)
-    );
+    const block = this.lastConfirmedBlock;
+    const toInitialize = Array.from(this.waitingToBeInitializedConfirmedSet)
+      .map((handle) => this.confirmedSubscriptions.get(handle))
+      .filter(
+        (subscription): subscription is ConfirmedSubscription => !!subscription
+      );
+    this.waitingToBeInitializedConfirmedSet = new Set();
 
-    const results = await Promise.all(promises);
+    const results = await Promise.all(
+      toInitialize.map((subscription) =>
+        subscription.subscriber.initialize(block)
+      )
+    );
 
     for (const [i, res] of Object.entries(results)) {
-      const address = toInitialize[parseInt(i, 10)];
+      const subscription = toInitialize[parseInt(i, 10)];
+      if (!this.isSubscribed(subscription)) {
+        continue;
+      }
       if (res) {
         /* initialize call failed retry later by adding it back to the set */
-        this.waitingToBeInitializedSet.add(address);
+        this.waitingToBeInitializedConfirmedSet.add(subscription.handle);
+        this.emitSubscriberInitFailed(subscription, block, res);
       } else {
-        const subscriber = this.subscribersByAddress[address];
-        subscriber.initializedAt = block;
-        subscriber.lastSeenEventBlock = block;
-        logger.debug("[BlockManager] subscriberInitialize()", {
+        subscription.subscriber.initializedAt = block;
+        subscription.subscriber.lastSeenEventBlock = block;
+        logger.debug("[BlockManager] confirmedSubscriberInitialize()", {
           data: {
-            address,
+            address: subscription.address,
+            handle: subscription.handle,
             block,
           },
         });
@@ -560,62 +2854,109 @@ class BlockManager {
   }
 
   /**
-   * For each logs find if there is a matching subscriber, then call handle log on the subscriber
+   * Query logs of blocks confirmed since lastConfirmedBlock and deliver them to confirmed subscribers.
+   * On failure lastConfirmedBlock is left untouched, the range will be retried on next block.
    */
-  private async applyLogs(logs: Log[]) {
-    if (this.subscribedAddresses.length === 0) {
+  private async handleConfirmedLogs(): Promise<void> {
+    if (this.confirmedSubscriptions.size === 0) {
+      /* nothing to deliver, confirmed block will be fetched again on next subscription */
+      this.lastConfirmedBlock = undefined;
       return;
     }
 
-    for (const log of logs) {
-      const checksumAddress = getAddress(log.address);
-      log.address = checksumAddress; // DIRTY: Maybe do it at the RPC level ?
+    if (this.lastConfirmedBlock) {
+      const { error, ok: confirmedBlock } = await this.getConfirmedBlock();
+      if (error) {
+        logger.warn(`[BlockManager] handleConfirmedLogs(): failure ${error}`);
+        return;
+      }
 
-      const subscriber = this.subscribersByAddress[checksumAddress];
-      if (!subscriber) continue;
-      await subscriber.handleLog(log); // await log one by one to insure consitent state between listener
-      logger.debug(
-        `[BlockManager] handleLog() ${log.address} (${log.blockHash}, ${log.blockNumber})`
-      );
+      if (confirmedBlock.number > this.lastConfirmedBlock.number) {
+        const { error: logsError, ok: logs } = await this.queryConfirmedLogs(
+          this.lastConfirmedBlock.number + 1,
+          confirmedBlock.number
+        );
+        if (logsError) {
+          logger.warn(
+            `[BlockManager] handleConfirmedLogs(): failure ${logsError}`
+          );
+          return;
+        }
+
+        await this.applyConfirmedLogs(logs!);
+        this.lastConfirmedBlock = {
+          number: confirmedBlock.number,
+          hash: confirmedBlock.hash,
+        };
+      }
     }
+
+    await this.handleConfirmedSubscribersInitialize();
   }
 
   /**
-   * Call rollback subscriber on all subscriber with lastSeenEventBlockNumber > block.number,
-   * schedule re-initialize for subscriber with initializedAt > block.number
+   * Query logs of confirmed subscriptions between from (included) and to (included), retry on failure.
    */
-  private rollbackSubscribers(block: BlockManager.Block) {
-    for (const [address, subscriber] of Object.entries(
-      this.subscribersByAddress
-    )) {
-      if (subscriber.initializedAt!.number > block.number) {
-        /* subscriber has been initialized at a block newer than block
-         * it needs to be initialized again.
-         **/
-        this.waitingToBeInitializedSet.add(address);
-        logger.info("[BlockManager] addToInitializeList()", {
-          data: {
-            initializedAt: subscriber.initializedAt,
-            block,
-          },
-        });
-      } else if (
-        subscriber.lastSeenEventBlock &&
-        subscriber.lastSeenEventBlock.number > block.number
-      ) {
-        subscriber.rollback(block);
-        logger.info("[BlockManager] rollback()", {
-          data: {
-            address,
-            block,
-          },
-        });
+  private async queryConfirmedLogs(
+    from: number,
+    to: number,
+    rec = 0
+  ): Promise<BlockManager.ErrorOrLogs> {
+    if (rec > this.options.maxRetryGetLogs) {
+      return { error: "MaxRetryReach", ok: undefined };
+    }
+
+    const { error, ok } = await this.getLogs(
+      from,
+      to,
+      this.getSubscribedAddressesAndTopics(this.confirmedSubscriptions.values())
+    );
+
+    if (error) {
+      await sleep(this.options.retryDelayGetLogsMs);
+      return this.queryConfirmedLogs(from, to, rec + 1);
+    }
+
+    const logs = Array.isArray(ok) ? ok : [];
+    for (const log of logs) {
+      /* confirmed blocks should not be reorged, if it's still in cache make sure it's the case */
+      const cachedBlock = this.blocksByNumber[log.blockNumber];
+      if (cachedBlock && cachedBlock.hash !== log.blockHash) {
+        return { error: "FailedFetchingLog", ok: undefined };
+      }
+    }
+
+    return { error: undefined, ok: logs };
+  }
+
+  /**
+   * For each confirmed logs find all matching confirmed subscriptions, then call handleConfirmedLog on their subscriber
+   */
+  private async applyConfirmedLogs(logs: Log[]) {
+    for (const log of logs) {
+      log.address = getAddress(log.address);
+
+      for (const subscription of Array.from(
+        this.confirmedSubscriptions.values()
+      )) {
+        if (!this.subscriptionWantsLog(subscription, log)) {
+          continue;
+        }
+        await subscription.subscriber.handleConfirmedLog(log);
+        subscription.subscriber.lastSeenEventBlock = {
+          number: log.blockNumber,
+          hash: log.blockHash,
+        };
+        logger.debug(
+          `[BlockManager] handleConfirmedLog() ${log.address} (${log.blockHash}, ${log.blockNumber}) (handle: ${subscription.handle})`
+        );
       }
     }
   }
 
   private async handleBatchBlock(
-    newBlock: BlockManager.Block
+    newBlock: BlockManager.Block,
+    replayed: boolean = false
   ): Promise<BlockManager.HandleBlockResult> {
     this.checkLastBlockExist();
 
@@ -653,7 +2994,7 @@ class BlockManager {
       }, {} as Record<number, BlockManager.Block>);
 
       /* get block object for `to` and `from` block numbers */
-      const toBlock = blocks[blocks.length - 1];
+      let toBlock = blocks[blocks.length - 1];
       const fromBlock = blocks[0];
 
       /**
@@ -666,6 +3007,12 @@ class BlockManager {
         }
       }
 
+      /* multi call does not return every header fields, take them from newBlock */
+      if (toBlock.hash === newBlock.hash) {
+        toBlock = { ...newBlock, ...toBlock };
+        blocks[blocks.length - 1] = toBlock;
+      }
+
       logger.debug("[BlockManager] handleBatchBlock()", {
         data: {
           from: fromBlock,
@@ -691,6 +3038,9 @@ class BlockManager {
         );
 
         if (reorgError) {
+          if (reorgError.recovered) {
+            return { error: undefined, ok: reorgError.recovered };
+          }
           if (reorgError.reInitialize) {
             return {
               error: undefined,
@@ -713,6 +3063,9 @@ class BlockManager {
         );
 
         if (queryLogsError) {
+          if (queryLogsError.recovered) {
+            return { error: undefined, ok: queryLogsError.recovered };
+          }
           return { error: "FailedFetchingLog", ok: undefined };
         }
 
@@ -722,11 +3075,18 @@ class BlockManager {
           ? queryLogsAncestor
           : reorgAncestor;
 
-        this.rollbackSubscribers(rollbackToBlock);
+        await this.rollbackSubscribers(rollbackToBlock);
 
         logs.push(...okLogs.logs);
 
-        await this.applyLogs(okLogs.logs);
+        await this.applyLogs(okLogs.logs, {
+          head: newBlock.number,
+          catchUp: true,
+          replayed: true,
+          blocksMap,
+          fromBlock: rollbackToBlock.number + 1,
+          toBlock: toBlock.number,
+        });
 
         /* do it again as subscriber may have failed to initialize in case of reorg */
         await this.handleSubscribersInitialize(newBlock);
@@ -747,11 +3107,14 @@ class BlockManager {
         );
 
         if (queryLogsError) {
+          if (queryLogsError.recovered) {
+            return { error: undefined, ok: queryLogsError.recovered };
+          }
           return { error: "FailedFetchingLog", ok: undefined };
         }
 
         if (okLogs.commonAncestor) {
-          this.rollbackSubscribers(okLogs.commonAncestor);
+          await this.rollbackSubscribers(okLogs.commonAncestor);
         } else {
           /* construct valid chain */
           for (const block of blocks) {
@@ -760,11 +3123,25 @@ class BlockManager {
         }
 
         logs.push(...okLogs.logs);
-        await this.applyLogs(okLogs.logs);
+        await this.applyLogs(okLogs.logs, {
+          head: newBlock.number,
+          catchUp: true,
+          replayed: replayed || !!okLogs.commonAncestor,
+          blocksMap,
+          fromBlock: okLogs.commonAncestor
+            ? okLogs.commonAncestor.number + 1
+            : fromBlock.number,
+          toBlock: toBlock.number,
+        });
       }
 
       from = toBlock.number + 1;
       if (newBlock.number !== this.lastBlock!.number) {
+        if (this.transactionBlock) {
+          /* during a catch up, each batch is committed on its own */
+          await this.commitTransaction();
+          await this.prepareTransaction(newBlock);
+        }
         await sleep(this.options.retryDelayGetBlockMs);
       }
     } while (newBlock!.number !== this.lastBlock!.number);
@@ -811,6 +3188,9 @@ class BlockManager {
       );
 
       if (reorgError) {
+        if (reorgError.recovered) {
+          return { error: undefined, ok: reorgError.recovered };
+        }
         if (reorgError.reInitialize) {
           return {
             error: undefined,
@@ -831,6 +3211,9 @@ class BlockManager {
       );
 
       if (queryLogsError) {
+        if (queryLogsError.recovered) {
+          return { error: undefined, ok: queryLogsError.recovered };
+        }
         if (queryLogsError.error === "ReInitializeBlockManager") {
           return {
             error: undefined,
@@ -852,8 +3235,14 @@ class BlockManager {
         ? queryLogsAncestor
         : reorgAncestor;
 
-      this.rollbackSubscribers(rollbackToBlock);
-      await this.applyLogs(okQueryLogs.logs);
+      await this.rollbackSubscribers(rollbackToBlock);
+      await this.applyLogs(okQueryLogs.logs, {
+        head: newBlock.number,
+        catchUp: false,
+        replayed: true,
+        fromBlock: rollbackToBlock.number + 1,
+        toBlock: newBlock.number,
+      });
 
       /* do it again as subscriber may have failed to initialize in case of reorg */
       await this.handleSubscribersInitialize(newBlock);
@@ -868,12 +3257,16 @@ class BlockManager {
       };
     } else {
       logger.debug(`[BlockManager] handleBlock() normal`, { data: newBlock });
+      const fromBlock = this.lastBlock!;
       const { error: queryLogsError, ok: okQueryLogs } = await this.queryLogs(
-        this.lastBlock!,
+        fromBlock,
         newBlock
       );
 
       if (queryLogsError) {
+        if (queryLogsError.recovered) {
+          return { error: undefined, ok: queryLogsError.recovered };
+        }
         if (queryLogsError.error === "ReInitializeBlockManager") {
           return {
             error: undefined,
@@ -887,9 +3280,15 @@ class BlockManager {
       }
 
       if (okQueryLogs.commonAncestor) {
-        this.rollbackSubscribers(okQueryLogs.commonAncestor);
+        await this.rollbackSubscribers(okQueryLogs.commonAncestor);
       }
-      await this.applyLogs(okQueryLogs.logs);
+      await this.applyLogs(okQueryLogs.logs, {
+        head: newBlock.number,
+        catchUp: false,
+        replayed: !!okQueryLogs.commonAncestor,
+        fromBlock: (okQueryLogs.commonAncestor || fromBlock).number + 1,
+        toBlock: newBlock.number,
+      });
 
       /* do it again as subscriber may have failed to initialize in case of reorg */
       await this.handleSubscribersInitialize(newBlock);
@@ -912,7 +3311,49 @@ class BlockManager {
     newBlock: BlockManager.Block
   ): Promise<BlockManager.HandleBlockResult> {
     return await this.mutex.runExclusive(async () => {
-      return this._handleBlock(newBlock);
+      let result: BlockManager.HandleBlockResult;
+      try {
+        result = await this.runTransaction(
+          newBlock,
+          async () => {
+            const res = await this._handleBlock(newBlock);
+            if (!res.error && this.options.confirmationDepth !== undefined) {
+              await this.handleConfirmedLogs();
+            }
+            return res;
+          },
+          (res) => !!res.error
+        );
+      } catch (e) {
+        /* e.g. a subscriber failed with the `stop` failure policy */
+        this.consecutiveFailures++;
+        this.emit("error", {
+          block: newBlock,
+          error: e instanceof Error ? e.message : String(e),
+          failures: this.consecutiveFailures,
+        });
+        throw e;
+      }
+      if (!result.error) {
+        /* blocks are only persisted once subscribers changes are committed */
+        await this.persistBlocks();
+        await this.saveCheckpoints();
+        this.pruneSubscribers();
+        this.consecutiveFailures = 0;
+        this.emit("block", {
+          block: newBlock,
+          logs: result.ok!.logs,
+          rollback: result.ok!.rollback,
+        });
+      } else {
+        this.consecutiveFailures++;
+        this.emit("error", {
+          block: newBlock,
+          error: result.error,
+          failures: this.consecutiveFailures,
+        });
+      }
+      return result;
     });
   }
 }
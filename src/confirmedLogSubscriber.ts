@@ -0,0 +1,28 @@
+import { Log } from "@ethersproject/providers";
+import BlockManager from "./blockManager";
+import LogSubscriber from "./logSubscriber";
+
+/**
+ * ConfirmedLogSubscriber class define the interface that needs to be supported to
+ * subscribeToConfirmedLogs through BlockManager.
+ *
+ * Logs are only delivered once their block is confirmed (see BlockManager.Options.confirmationDepth),
+ * a ConfirmedLogSubscriber is never rollbacked.
+ */
+abstract class ConfirmedLogSubscriber<ParsedEvent> {
+  public initializedAt?: BlockManager.BlockWithoutParentHash; // confirmed block which the subscriber initialized at.
+  public lastSeenEventBlock?: BlockManager.BlockWithoutParentHash; // last confirmed log block handled
+
+  /**
+   * initialize subscriber at confirmed block `block`.
+   */
+  abstract initialize(
+    block: BlockManager.BlockWithoutParentHash
+  ): Promise<LogSubscriber.InitializeErrorOrBlock>;
+  /**
+   * handle a log coming from a confirmed block
+   */
+  abstract handleConfirmedLog(log: Log, event?: ParsedEvent): Promise<void>;
+}
+
+export default ConfirmedLogSubscriber;
@@ -3,7 +3,20 @@ import ReliableProvider from "./providers/reliableProvider";
 import ReliableWebsocketProvider from "./providers/reliableWebsocketProvider";
 import ReliableHttpProvider from "./providers/reliableHttpProvider";
 import LogSubscriber from "./logSubscriber";
+import ConfirmedLogSubscriber from "./confirmedLogSubscriber";
 import StateLogSubscriber from "./stateLogSubscriber";
+import JournaledStateLogSubscriber from "./journaledStateLogSubscriber";
+import BlockStore from "./stores/blockStore";
+import InMemoryBlockStore from "./stores/inMemoryBlockStore";
+import SqliteBlockStore from "./stores/sqliteBlockStore";
+import CheckpointStore from "./stores/checkpointStore";
+import InMemoryCheckpointStore from "./stores/inMemoryCheckpointStore";
+import SqliteCheckpointStore from "./stores/sqliteCheckpointStore";
+import TransactionalSink from "./stores/transactionalSink";
+import InMemoryTransactionalSink from "./stores/inMemoryTransactionalSink";
+import SnapshotStore from "./stores/snapshotStore";
+import InMemorySnapshotStore from "./stores/inMemorySnapshotStore";
+import FileSnapshotStore from "./stores/fileSnapshotStore";
 import { enableLogging } from './util/logger';
 
 export {
@@ -12,6 +25,19 @@ export {
   ReliableWebsocketProvider,
   ReliableHttpProvider,
   LogSubscriber,
+  ConfirmedLogSubscriber,
   StateLogSubscriber,
+  JournaledStateLogSubscriber,
+  BlockStore,
+  InMemoryBlockStore,
+  SqliteBlockStore,
+  CheckpointStore,
+  InMemoryCheckpointStore,
+  SqliteCheckpointStore,
+  TransactionalSink,
+  InMemoryTransactionalSink,
+  SnapshotStore,
+  InMemorySnapshotStore,
+  FileSnapshotStore,
   enableLogging,
 };
@@ -0,0 +1,178 @@
+import { Log } from "@ethersproject/providers";
+import { Mutex } from "async-mutex";
+import logger from "./util/logger";
+
+import BlockManager from "./blockManager";
+import LogSubscriber from "./logSubscriber";
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+namespace JournaledStateLogSubscriber {
+  /**
+   * Revert in place the changes made to `state` by one stateHandleLog call.
+   */
+  export type InverseOperation<T> = (state: T) => void;
+
+  export type JournalMetrics = {
+    journaledBlocks: number; // count of blocks with a journal
+    journaledOperations: number; // count of inverse operations in journals
+    prunedBlocks: number; // count of journals pruned since the subscriber was created
+  };
+}
+
+/**
+ * JournaledStateLogSubscriber is an abstract implementation of LogSubscriber which keeps a single
+ * mutable state. Each handled log records an inverse operation in the journal of its block, rollback
+ * replays journals backwards instead of restoring a copy of the state.
+ *
+ * It has the same rollback semantics as StateLogSubscriber, but costs scale with the count of
+ * changes instead of the size of the state.
+ */
+abstract class JournaledStateLogSubscriber<
+  T,
+  ParsedEvent
+> extends LogSubscriber<ParsedEvent> {
+  private state?: T;
+  private journalByBlockNumber: Record<
+    number,
+    JournaledStateLogSubscriber.InverseOperation<T>[]
+  > = {}; // inverse operations by blockNumber, in the order logs were handled
+  private prunedBlocks: number = 0;
+  protected cacheLock: Mutex; // Lock that must be acquired when modifying the state to ensure consistency and to queue state updating events.
+
+  constructor() {
+    super();
+    this.cacheLock = new Mutex();
+  }
+
+  abstract stateInitialize(
+    block: BlockManager.BlockWithoutParentHash
+  ): Promise<LogSubscriber.ErrorOrState<T>>;
+
+  /** apply `log` to `state` in place and return the operation reverting it, this.lastSeenEventBlock
+   * is equal to current (log.blockNumber, log.blockHash). The state must be left untouched if it throws.
+   */
+  abstract stateHandleLog(
+    state: T,
+    log: Log,
+    event?: ParsedEvent,
+    ctx?: LogSubscriber.HandleLogContext
+  ): JournaledStateLogSubscriber.InverseOperation<T>;
+
+  protected checkIfLastSeenEventBlockExists() {
+    if (!this.lastSeenEventBlock) {
+      throw new Error("Last Seen event block is undefined");
+    }
+  }
+
+  /* return latest state, it's mutated in place by next logs */
+  public getLatestState(): T {
+    this.checkIfLastSeenEventBlockExists();
+
+    return this.state!;
+  }
+
+  public getJournalMetrics(): JournaledStateLogSubscriber.JournalMetrics {
+    const journals = Object.values(this.journalByBlockNumber);
+    return {
+      journaledBlocks: journals.length,
+      journaledOperations: journals.reduce(
+        (acc, journal) => acc + journal.length,
+        0
+      ),
+      prunedBlocks: this.prunedBlocks,
+    };
+  }
+
+  /* initialize subscriber by calling stateInitialize */
+  public async initialize(
+    wantedBlock: BlockManager.BlockWithoutParentHash
+  ): Promise<LogSubscriber.InitializeErrorOrBlock> {
+    logger.debug("[JournaledStateLogSubscriber] initialize() ");
+    this.state = undefined;
+    this.journalByBlockNumber = {};
+
+    this.initializedAt = undefined;
+    this.lastSeenEventBlock = undefined;
+    const { error, ok } = await this.stateInitialize(wantedBlock);
+
+    if (error) {
+      logger.error("[JournaledStateLogSubscriber] initialize() failed", {
+        data: { error },
+      });
+      return error;
+    }
+
+    this.state = ok;
+    this.lastSeenEventBlock = wantedBlock;
+
+    logger.debug("[JournaledStateLogSubscriber] initialize done");
+  }
+
+  /* the state only lives in memory, it can't be restored from a checkpoint and is initialized again */
+  public async restore(): Promise<LogSubscriber.ErrorOrRestoredBlock> {
+    return { error: "FailedInitialize", ok: undefined };
+  }
+
+  /** handle received log by letting implementation `stateHandleLog` modify the state, and record
+   * the returned inverse operation in the journal of the log block.
+   */
+  public async handleLog(
+    log: Log,
+    event?: ParsedEvent,
+    ctx?: LogSubscriber.HandleLogContext
+  ): Promise<void> {
+    return this.cacheLock.runExclusive(() => {
+      this.checkIfLastSeenEventBlockExists();
+
+      this.lastSeenEventBlock = {
+        number: log.blockNumber,
+        hash: log.blockHash,
+      };
+
+      const inverse = this.stateHandleLog(this.state!, log, event, ctx);
+      const journal = this.journalByBlockNumber[log.blockNumber] || [];
+      journal.push(inverse);
+      this.journalByBlockNumber[log.blockNumber] = journal;
+    });
+  }
+
+  /* rollback state by replaying journals of blocks newer than `block`, newest operation first */
+  public rollback(block: BlockManager.Block): void {
+    if (!this.lastSeenEventBlock) {
+      return;
+    }
+
+    const numbers = Object.keys(this.journalByBlockNumber)
+      .map((number) => parseInt(number, 10))
+      .filter((number) => number > block.number)
+      .sort((a, b) => b - a);
+    for (const number of numbers) {
+      const journal = this.journalByBlockNumber[number];
+      for (let i = journal.length - 1; i >= 0; --i) {
+        journal[i](this.state!);
+      }
+      delete this.journalByBlockNumber[number];
+    }
+    this.lastSeenEventBlock = block;
+  }
+
+  /* drop journals of blocks which can't be rolled back anymore */
+  public prune(blockNumber: number): void {
+    let pruned = 0;
+    for (const number of Object.keys(this.journalByBlockNumber)) {
+      if (parseInt(number, 10) <= blockNumber) {
+        delete this.journalByBlockNumber[parseInt(number, 10)];
+        pruned++;
+      }
+    }
+
+    if (pruned > 0) {
+      this.prunedBlocks += pruned;
+      logger.debug("[JournaledStateLogSubscriber] prune()", {
+        data: { blockNumber, pruned },
+      });
+    }
+  }
+}
+
+export default JournaledStateLogSubscriber;
@@ -10,10 +10,39 @@ namespace LogSubscriber {
 
   export type InitializeErrorOrBlock = Error | undefined;
 
+  /**
+   * Block after which logs are delivered to a restored subscriber: the checkpoint block, or an older
+   * block if its state could only be restored as it was at that block.
+   */
+  export type ErrorOrRestoredBlock = Result<
+    BlockManager.BlockWithoutParentHash,
+    Error
+  >;
+
   export type ErrorOrState<T> = Result<
     T,
     Error
   >;
+
+  /**
+   * Checkpoint of a subscriber, it has handled all logs until `block` (included).
+   */
+  export type Checkpoint = {
+    block: BlockManager.BlockWithoutParentHash;
+    initializedAt: BlockManager.BlockWithoutParentHash;
+    lastSeenEventBlock?: BlockManager.BlockWithoutParentHash;
+  };
+
+  /**
+   * Context of a log given to handleLog
+   */
+  export type HandleLogContext = {
+    block: BlockManager.Block; // block of the log, with header fields (timestamp...) if available
+    head: number; // number of the block being handled
+    confirmations: number; // head - block.number
+    replayed: boolean; // true if the log is delivered again after a reorg rollback
+    catchUp: boolean; // true if the log comes from handleBatchBlock or a backfill, false if live
+  };
 }
 /**
  * LogSubscriber class define the interface that needs to be supported to subscribeToLogs
@@ -30,13 +59,52 @@ abstract class LogSubscriber<ParsedEvent> {
     block: BlockManager.BlockWithoutParentHash
   ): Promise<LogSubscriber.InitializeErrorOrBlock>;
   /**
-   * handle log
+   * handle log, `ctx` is always given by BlockManager
    */
-  abstract handleLog(log: Log, event?: ParsedEvent): Promise<void>;
+  abstract handleLog(
+    log: Log,
+    event?: ParsedEvent,
+    ctx?: LogSubscriber.HandleLogContext
+  ): Promise<void>;
   /**
    * rollback subscriber to block `block`
    */
   abstract rollback(block: BlockManager.Block): void;
+  /**
+   * called before the logs of `block` are handled, only for blocks with logs for the subscriber
+   * unless it subscribed with `emptyBlocks`.
+   */
+  onBlockStart?(block: BlockManager.Block): Promise<void>;
+  /**
+   * called once all logs of `block` are handled, e.g. to commit writes done in handleLog.
+   * Block hooks failures are handled by the subscription failurePolicy, as handleLog failures.
+   */
+  onBlockEnd?(block: BlockManager.Block): Promise<void>;
+  /**
+   * called once `block` is handled, whether it has logs for the subscriber or not, e.g. to know the
+   * hashes of every block. It must not fail as it is not covered by the failurePolicy.
+   */
+  onBlockHandled?(block: BlockManager.Block): void;
+  /**
+   * handle a previously delivered log orphaned by a reorg, `log.removed` is true. Called newest first
+   * before rollback and before replacement logs are delivered. A failure is handled by the
+   * subscription failurePolicy once the rollback of every subscriber is done.
+   */
+  handleRemovedLog?(log: Log): Promise<void>;
+  /**
+   * called after each handled block, the subscriber will never be rolled back to a block older than
+   * `blockNumber` so it can drop what it keeps for older blocks.
+   */
+  prune?(blockNumber: number): void;
+  /**
+   * restore subscriber at `checkpoint` instead of initializing it, `checkpoint.block` has been
+   * verified to still be canonical. Returns `checkpoint.block`, or an older block its state has been
+   * restored at: logs after it are delivered again. If not implemented the subscriber is expected to
+   * keep its state by itself (e.g. in a database).
+   */
+  restore?(
+    checkpoint: LogSubscriber.Checkpoint
+  ): Promise<LogSubscriber.ErrorOrRestoredBlock>;
 }
 
 export default LogSubscriber;
@@ -1,7 +1,7 @@
 import { Block } from "@ethersproject/providers";
 import { Mutex } from "async-mutex";
 import logger from "../util/logger";
-import ReliableProvider from "./reliableProvider";
+import ReliableProvider, { getHeaderFields } from "./reliableProvider";
 
 namespace ReliableHttpProvider {
   export type Options = {
@@ -50,6 +50,7 @@ class ReliableHttpProvider extends ReliableProvider {
           parentHash: blockHeader.parentHash,
           hash: blockHeader.hash,
           number: blockHeader.number,
+          ...getHeaderFields(blockHeader),
         });
       } catch (e) {
         logger.error('[ReliableHttpProvider] failed handling block', e);
@@ -72,6 +73,7 @@ class ReliableHttpProvider extends ReliableProvider {
     this.shouldStop = true;
     clearTimeout(this.timeoutId);
     this.timeoutId = undefined;
+    this.closeUpdates();
   }
 }
 
@@ -1,9 +1,28 @@
-import { JsonRpcProvider, Log } from "@ethersproject/providers";
+import { Block, JsonRpcBatchProvider, JsonRpcProvider, Log } from "@ethersproject/providers";
 import BlockManager from "../blockManager";
 import { hexStripZeros, hexlify, stripZeros } from "ethers/lib/utils";
 import { Contract } from "ethers";
 import MULIV2ABI from '../abi/multi-v2.abi.json';
 import logger from "../util/logger";
+import { mergeTopics } from "../util/topics";
+import BlockStore from "../stores/blockStore";
+import CheckpointStore from "../stores/checkpointStore";
+import TransactionalSink from "../stores/transactionalSink";
+import TypedEventEmitter from "../util/typedEventEmitter";
+import BoundedAsyncQueue from "../util/boundedAsyncQueue";
+
+const DEFAULT_UPDATES_BUFFER_SIZE = 16;
+
+/**
+ * Optional BlockManager.Block header fields from an ethers block
+ */
+export const getHeaderFields = (block: Block) => {
+  return {
+    timestamp: block.timestamp,
+    gasUsed: block.gasUsed.toHexString(),
+    ...(block.baseFeePerGas ? { baseFeePerGas: block.baseFeePerGas.toHexString() } : {}),
+  };
+};
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
 namespace ReliableProvider {
@@ -11,6 +30,27 @@ namespace ReliableProvider {
     provider: JsonRpcProvider;
     multiv2Address: string;
     getLogsTimeout: number;
+    blockStore?: BlockStore;
+    checkpointStore?: CheckpointStore;
+    transactionalSink?: TransactionalSink;
+  };
+
+  /**
+   * Events emitted by ReliableProvider, BlockManager events are forwarded
+   */
+  export type Events = BlockManager.Events;
+
+  /**
+   * Processed block with its logs, if rollback is defined the subscriber has to rollback to it first
+   */
+  export type Update = BlockManager.BlockEvent;
+
+  export type UpdatesOptions = {
+    /**
+     * Max count of updates waiting for the consumer, once full new blocks are not handled until
+     * the consumer catches up.
+     */
+    bufferSize?: number;
   };
 
   export type LogWithHexStringBlockNumber = Omit<Log, "blockNumber"> & {
@@ -24,7 +64,7 @@ namespace ReliableProvider {
   * The actual implementation needs to query new blocks and add them to the queue using 
   * addBlockToQueue function.   
   */
-abstract class ReliableProvider {
+abstract class ReliableProvider extends TypedEventEmitter<ReliableProvider.Events> {
   public blockManager: BlockManager;
 
   private queue: BlockManager.Block[] = [];
@@ -34,9 +74,14 @@ abstract class ReliableProvider {
 
   protected lastReceivedBlock: BlockManager.Block | undefined;
 
+  private batchProvider: JsonRpcProvider | undefined;
+
+  private updatesQueues: Set<BoundedAsyncQueue<ReliableProvider.Update>> = new Set();
+
   constructor(
     protected options: ReliableProvider.Options,
   ) {
+    super();
     this.multiContract = new Contract(options.multiv2Address, MULIV2ABI, options.provider);
     this.blockManager = new BlockManager({
       maxBlockCached: options.maxBlockCached,
@@ -48,14 +93,36 @@ abstract class ReliableProvider {
       maxRetryGetLogs: options.maxRetryGetLogs,
       retryDelayGetLogsMs: options.retryDelayGetLogsMs,
       batchSize: options.batchSize,
+      confirmationDepth: options.confirmationDepth,
+      maxLogsBlockSpan: options.maxLogsBlockSpan,
+      maxReorgDepth: options.maxReorgDepth,
+      parallelDispatch: options.parallelDispatch,
+      getFinalizedBlock: this.getFinalizedBlock.bind(this),
+      getTransactionsAndReceipts: this.getTransactionsAndReceipts.bind(this),
+      blockStore: options.blockStore,
+      checkpointStore: options.checkpointStore,
+      transactionalSink: options.transactionalSink,
     });
+    this.blockManager.forwardTo(this);
   }
 
   abstract _initialize(): Promise<void>;
 
+  /**
+   * Initialize the provider at `block`. Subscribers with a checkpoint subscribed before calling
+   * initialize resume from the oldest checkpoint, otherwise the blocks cache is restored from
+   * the block store if any.
+   */
   public async initialize(block: BlockManager.Block) {
-    await this.blockManager.initialize(block);
     this.lastReceivedBlock = block;
+    if (await this.blockManager.resume(block)) {
+      logger.info(`[ReliableProvider] resumed from checkpoints`);
+    } else if (await this.blockManager.restore(block)) {
+      /* the restored cache caught up until block, a reorg is handled as usual */
+      logger.info(`[ReliableProvider] restored blocks cache`);
+    } else {
+      await this.blockManager.initialize(block);
+    }
 
     await this._initialize();
 
@@ -64,6 +131,28 @@ abstract class ReliableProvider {
 
   public abstract stop(): void;
 
+  /**
+   * Stream of processed blocks, usable with `for await (const update of provider.updates())`.
+   *
+   * Handling new blocks waits while the buffer is full.
+   */
+  public updates(options: ReliableProvider.UpdatesOptions = {}): AsyncIterableIterator<ReliableProvider.Update> {
+    const queue: BoundedAsyncQueue<ReliableProvider.Update> = new BoundedAsyncQueue(
+      options.bufferSize || DEFAULT_UPDATES_BUFFER_SIZE,
+      () => this.updatesQueues.delete(queue)
+    );
+    this.updatesQueues.add(queue);
+    return queue;
+  }
+
+  /**
+   * End every stream returned by updates, should be called by stop
+   */
+  protected closeUpdates() {
+    this.updatesQueues.forEach((queue) => queue.close());
+    this.updatesQueues.clear();
+  }
+
   getLatestBlock?(): Promise<void>;
 
   public addBlockToQueue(block: BlockManager.Block) {
@@ -85,7 +174,22 @@ abstract class ReliableProvider {
 
     let until = this.queue.length;
     for (let i = 0; i < until; ++i) {
-      const result = await this.blockManager.handleBlock(this.queue[i]); // blocks needs to be handle in order
+      let result: BlockManager.HandleBlockResult;
+      try {
+        result = await this.blockManager.handleBlock(this.queue[i]); // blocks needs to be handle in order
+      } catch (e) {
+        /* a subscriber with the "stop" failure policy failed, stop the pipeline */
+        logger.error('[ReliableProvider] handle block failed, stopping', {
+          data: {
+            block: this.queue[i],
+            error: e instanceof Error ? e.message : e,
+          }
+        });
+        this.queue = [];
+        this.inProcess = false;
+        this.stop();
+        return;
+      }
       if (result.error) {
         logger.warn('[ReliableProvider] handle block', {
           data: {
@@ -93,6 +197,14 @@ abstract class ReliableProvider {
             result,
           }
         });
+      } else if (this.updatesQueues.size > 0) {
+        const update = {
+          block: this.queue[i],
+          logs: result.ok!.logs,
+          rollback: result.ok!.rollback,
+        };
+        /* backpressure: wait for every consumer to have room */
+        await Promise.all(Array.from(this.updatesQueues).map((queue) => queue.push(update)));
       }
 
       until = this.queue.length; // queue can grow during the async call
@@ -114,6 +226,7 @@ abstract class ReliableProvider {
           parentHash: block.parentHash,
           hash: block.hash,
           number: block.number,
+          ...getHeaderFields(block),
         },
       };
     } catch (e) {
@@ -121,6 +234,73 @@ abstract class ReliableProvider {
     }
   }
 
+  protected async getFinalizedBlock(): Promise<BlockManager.ErrorOrBlock> {
+    try {
+      const block = await this.options.provider.getBlock("finalized");
+      logger.debug(`[ReliableProvider] getFinalizedBlock successful`, {
+        data: block,
+      });
+      return {
+        error: undefined,
+        ok: {
+          parentHash: block.parentHash,
+          hash: block.hash,
+          number: block.number,
+          ...getHeaderFields(block),
+        },
+      };
+    } catch (e) {
+      return { error: "BlockNotFound", ok: undefined };
+    }
+  }
+
+  /**
+    * getBatchProvider returns the provider used to batch requests. JsonRpcBatchProvider only supports
+    * http(s) urls, websocket providers send every request over their existing socket instead.
+    */
+  private getBatchProvider(): JsonRpcProvider {
+    const provider = this.options.provider;
+    if (provider instanceof JsonRpcBatchProvider || /^wss?:\/\//i.test(provider.connection.url)) {
+      return provider;
+    }
+    return new JsonRpcBatchProvider(provider.connection);
+  }
+
+  /**
+    * getTransactionsAndReceipts get transactions and receipts of `hashes` in one batched json rpc request
+    */
+  protected async getTransactionsAndReceipts(hashes: string[]): Promise<BlockManager.ErrorOrTransactions> {
+    if (!this.batchProvider) {
+      this.batchProvider = this.getBatchProvider();
+    }
+    const batchProvider = this.batchProvider;
+
+    try {
+      /* requests sent in the same tick are batched by JsonRpcBatchProvider, or pipelined over the websocket */
+      const [transactions, receipts] = await Promise.all([
+        Promise.all(hashes.map((hash) => batchProvider.send("eth_getTransactionByHash", [hash]))),
+        Promise.all(hashes.map((hash) => batchProvider.send("eth_getTransactionReceipt", [hash]))),
+      ]);
+
+      const result: Record<string, BlockManager.TransactionAndReceipt> = {};
+      for (const [i, hash] of hashes.entries()) {
+        if (!transactions[i] || !receipts[i]) {
+          return { error: `TransactionNotFound ${hash}`, ok: undefined };
+        }
+        result[hash] = {
+          transaction: this.options.provider.formatter.transactionResponse(transactions[i]),
+          receipt: this.options.provider.formatter.receipt(receipts[i]),
+        };
+      }
+
+      logger.debug(`[ReliableProvider] getTransactionsAndReceipts successful. (hashes.length = ${hashes.length})`);
+      return { error: undefined, ok: result };
+    } catch (e) {
+      logger.warn(`[ReliableProvider] getTransactionsAndReceipts ${e}`);
+      return { error: e instanceof Error ? e.message : "FailedFetchingTransactions", ok: undefined };
+    }
+  }
+
   /**
     * getBlockWithMultiCalls get blocks between from (included) and to (included)
     */
@@ -146,10 +326,19 @@ abstract class ReliableProvider {
       });
     }
 
+    /* timestamp of the block executing the multicall, it's `to` when no blockTag is specified and `to` is the latest block */
+    const timestampCall = {
+      target: this.multiContract.address,
+      callData: this.multiContract.interface.encodeFunctionData('getCurrentBlockTimestamp'),
+    };
+
     try {
-      const results = await this.multiContract.callStatic.aggregate(calls,  (this.lastReceivedBlock!.number - this.options.batchSize) > to ?  { blockTag: to + 1 } : {}); // specify blockTag only if we are one batchSize away from lastBlock
+      const results = await this.multiContract.callStatic.aggregate([...calls, timestampCall],  (this.lastReceivedBlock!.number - this.options.batchSize) > to ?  { blockTag: to + 1 } : {}); // specify blockTag only if we are one batchSize away from lastBlock
 
-      const blocks: BlockManager.Block[] = results.returnData.map((res: any, index: number) => {
+      const returnData = [...results.returnData];
+      const timestampData = returnData.pop();
+
+      const blocks: BlockManager.Block[] = returnData.map((res: any, index: number) => {
         if (index === 0) {
           /**
             * Tricks: I fetched all blocks between from (included) and to (not included)
@@ -162,13 +351,18 @@ abstract class ReliableProvider {
           } as BlockManager.Block
         }
         return {
-          parentHash: results.returnData[index - 1],
+          parentHash: returnData[index - 1],
           hash: this.multiContract.interface.decodeFunctionResult('getBlockHash', res).blockHash,
           number: calls[index].blockNumber,
         } as BlockManager.Block;
       });
 
       blocks.shift(); // removing (from - 1) block
+
+      const lastBlock = blocks[blocks.length - 1];
+      if (lastBlock && results.blockNumber.eq(lastBlock.number)) {
+        lastBlock.timestamp = this.multiContract.interface.decodeFunctionResult('getCurrentBlockTimestamp', timestampData).timestamp.toNumber();
+      }
   
       logger.debug(`[ReliableWebSocket] getBlockWithMultiCalls successful. (blocks.length = ${blocks.length})`);
       return { 
@@ -192,7 +386,7 @@ abstract class ReliableProvider {
       }, this.options.getLogsTimeout);
       try {
         if (addressesAndTopics.length === 0) {
-          return { error: undefined, ok: [] };
+          return resolve({ error: undefined, ok: [] });
         }
         if (from < 1) {
           from = 1;
@@ -200,6 +394,9 @@ abstract class ReliableProvider {
 
         const fromBlock = hexStripZeros(hexlify(from.valueOf()));
         const toBlock = hexStripZeros(hexlify(to.valueOf()));
+        const topics = mergeTopics(
+          addressesAndTopics.map((addr) => addr.topics)
+        );
 
         // cannot use provider.getLogs as it does not support multiplesAddress
         const logs: ReliableProvider.LogWithHexStringBlockNumber[] =
@@ -208,6 +405,7 @@ abstract class ReliableProvider {
               fromBlock,
               toBlock,
               address: addressesAndTopics.map((addr) => addr.address),
+              ...(topics.length > 0 ? { topics } : {}),
             },
           ]);
 
@@ -241,9 +439,9 @@ abstract class ReliableProvider {
       } finally {
         clearTimeout(timeoutId);
       } 
-    }).catch((err: Error) => {
+    }).catch((err: BlockManager.ErrorOrLogs) => {
       return Promise.resolve({
-        error: err.message,
+        error: err.error || "FailedFetchingLog",
         ok: undefined,
       });
     });
@@ -58,6 +58,7 @@ class ReliableWebsocketProvider extends ReliableProvider {
     this.blockTimeout = undefined;
 
     this.reliableWebSocket.stop();
+    this.closeUpdates();
   }
 
   private handleMessage(msg: string) {
@@ -81,6 +82,9 @@ class ReliableWebsocketProvider extends ReliableProvider {
       parentHash: blockHeader.parentHash,
       hash: blockHeader.hash,
       number: parseInt(blockHeader.number, 16),
+      timestamp: parseInt(blockHeader.timestamp, 16),
+      gasUsed: blockHeader.gasUsed,
+      ...(blockHeader.baseFeePerGas ? { baseFeePerGas: blockHeader.baseFeePerGas } : {}),
     };
 
     this.addBlockToQueue(block);
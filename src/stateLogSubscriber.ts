@@ -1,9 +1,44 @@
 import { Log } from "@ethersproject/providers";
 import { Mutex } from "async-mutex";
+import { isDeepStrictEqual } from "util";
 import logger from "./util/logger";
 
 import BlockManager from "./blockManager";
 import LogSubscriber from "./logSubscriber";
+import { Result } from "./util/types";
+import SnapshotStore from "./stores/snapshotStore";
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+namespace StateLogSubscriber {
+  export type StateMetrics = {
+    cachedStates: number; // count of states in cache
+    prunedStates: number; // count of states pruned since the subscriber was created
+    oldestCachedBlockNumber?: number;
+  };
+
+  export type StateQueryError =
+    | "NotInitialized" // no state yet
+    | "BlockNotHandled" // block is older than the initialization of the subscriber
+    | "StatePruned" // block is past the reorg window, its state has been pruned
+    | "BlockNotCanonical" // block has been removed by a reorg
+    | "UnknownBlockHash"; // block has not been handled by the subscriber
+
+  export type ErrorOrQueriedState<T> = Result<T, StateQueryError>;
+
+  export type StateChange = {
+    key: string; // changed key of the state, empty if the state is not an object
+    previous: unknown;
+    next: unknown;
+  };
+
+  export type StateDiff = {
+    block: BlockManager.BlockWithoutParentHash; // block whose logs were applied, or dropped by a rollback
+    reverted: boolean; // true if the block was dropped by a rollback, changes go back to the previous state
+    changes: StateChange[];
+  };
+
+  export type StateDiffListener = (diff: StateDiff) => void;
+}
 
 /**
  * StateLogSubscriber is an abstract implementation of LogSubscriber which keep
@@ -15,6 +50,18 @@ abstract class StateLogSubscriber<
   ParsedEvent
 > extends LogSubscriber<ParsedEvent> {
   private stateByBlockNumber: Record<number, T> = {}; // state by blockNumber
+  private prunedStates: number = 0;
+  private prunedBefore?: number; // states older than this block number have been pruned
+  private blockHashes: Record<number, string> = {}; // hash of handled blocks by number
+  private orphanedBlockNumbers: Record<string, number> = {}; // block number of hashes removed by a rollback
+  private prunedBlockNumbers: Record<string, number> = {}; // block number of hashes whose state has been pruned
+  private stateDiffListeners: StateLogSubscriber.StateDiffListener[] = [];
+  private snapshot?: {
+    store: SnapshotStore;
+    key: string;
+    interval: number;
+    lastBlockNumber?: number; // block of the last saved snapshot
+  };
   protected cacheLock: Mutex; // Lock that must be acquired when modifying the cache to ensure consistency and to queue cache updating events.
 
   constructor() {
@@ -39,7 +86,142 @@ abstract class StateLogSubscriber<
   public getLatestState(): T {
     this.checkIfLastSeenEventBlockExists();
 
-    return this.stateByBlockNumber[this.lastSeenEventBlock!.number];
+    return this.stateByBlockNumber[
+      this.getStateBlockNumber(this.lastSeenEventBlock!.number)!
+    ];
+  }
+
+  /**
+   * Return the state at block `blockNumber`, that is the newest cached state at or before it.
+   */
+  public getStateAt(
+    blockNumber: number
+  ): StateLogSubscriber.ErrorOrQueriedState<T> {
+    if (!this.lastSeenEventBlock) {
+      return { error: "NotInitialized", ok: undefined };
+    }
+
+    const stateBlockNumber = this.getStateBlockNumber(blockNumber);
+    if (stateBlockNumber === undefined) {
+      return {
+        error:
+          this.prunedBefore !== undefined && blockNumber < this.prunedBefore
+            ? "StatePruned"
+            : "BlockNotHandled",
+        ok: undefined,
+      };
+    }
+
+    return { error: undefined, ok: this.stateByBlockNumber[stateBlockNumber] };
+  }
+
+  /**
+   * Return the state at block `blockHash`, the block needs to be canonical and handled by the
+   * subscriber.
+   */
+  public getStateAtHash(
+    blockHash: string
+  ): StateLogSubscriber.ErrorOrQueriedState<T> {
+    if (blockHash in this.orphanedBlockNumbers) {
+      return { error: "BlockNotCanonical", ok: undefined };
+    }
+    if (blockHash in this.prunedBlockNumbers) {
+      return { error: "StatePruned", ok: undefined };
+    }
+
+    for (const [number, hash] of Object.entries(this.blockHashes)) {
+      if (hash === blockHash) {
+        return this.getStateAt(parseInt(number, 10));
+      }
+    }
+
+    return { error: "UnknownBlockHash", ok: undefined };
+  }
+
+  /**
+   * Register `listener` for state diffs: one diff per block once its logs are applied, and one
+   * reverted diff per block dropped by a rollback (newest first). Returns a function removing the listener.
+   */
+  public onStateDiff(listener: StateLogSubscriber.StateDiffListener): () => void {
+    this.stateDiffListeners.push(listener);
+    return () => {
+      this.stateDiffListeners = this.stateDiffListeners.filter(
+        (l) => l !== listener
+      );
+    };
+  }
+
+  /**
+   * Return changes from `previous` to `next`, by default values of each key of objects are compared
+   * structurally, as copies made by `copy` are different objects. Override it for a finer diff
+   * (nested keys, maps entries...).
+   */
+  protected diffStates(previous: T, next: T): StateLogSubscriber.StateChange[] {
+    if (
+      typeof previous !== "object" ||
+      typeof next !== "object" ||
+      previous === null ||
+      next === null
+    ) {
+      return isDeepStrictEqual(previous, next) ? [] : [{ key: "", previous, next }];
+    }
+
+    const before = previous as Record<string, unknown>;
+    const after = next as Record<string, unknown>;
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys)
+      .filter((key) => !isDeepStrictEqual(before[key], after[key]))
+      .map((key) => ({ key, previous: before[key], next: after[key] }));
+  }
+
+  private emitStateDiff(
+    number: number,
+    reverted: boolean,
+    previous: T,
+    next: T
+  ) {
+    const diff: StateLogSubscriber.StateDiff = {
+      block: { number, hash: this.blockHashes[number] },
+      reverted,
+      changes: this.diffStates(previous, next),
+    };
+    for (const listener of [...this.stateDiffListeners]) {
+      try {
+        listener(diff);
+      } catch (e) {
+        logger.error("[StateLogSubscriber] emitStateDiff(): listener failed", {
+          data: { error: e instanceof Error ? e.message : e },
+        });
+      }
+    }
+  }
+
+  public getStateMetrics(): StateLogSubscriber.StateMetrics {
+    const numbers = this.getCachedBlockNumbers();
+    return {
+      cachedStates: numbers.length,
+      prunedStates: this.prunedStates,
+      oldestCachedBlockNumber: numbers[0],
+    };
+  }
+
+  /* return block numbers of cached states, oldest first */
+  private getCachedBlockNumbers(): number[] {
+    return Object.keys(this.stateByBlockNumber)
+      .map((number) => parseInt(number, 10))
+      .sort((a, b) => a - b);
+  }
+
+  /* return block number of the newest cached state at or before `blockNumber`, a block without
+   * log shares the state of the previous block with a log.
+   */
+  private getStateBlockNumber(blockNumber: number): number | undefined {
+    if (blockNumber in this.stateByBlockNumber) {
+      return blockNumber;
+    }
+    return this.getCachedBlockNumbers()
+      .filter((number) => number <= blockNumber)
+      .pop();
   }
 
   /* initialize subscriber by calling stateInitialize */
@@ -48,6 +230,10 @@ abstract class StateLogSubscriber<
   ): Promise<LogSubscriber.InitializeErrorOrBlock> {
     logger.debug("[StateLogSubscriber] initialize() ");
     this.stateByBlockNumber = {};
+    this.prunedBefore = undefined;
+    this.blockHashes = {};
+    this.orphanedBlockNumbers = {};
+    this.prunedBlockNumbers = {};
 
     this.initializedAt = undefined;
     this.lastSeenEventBlock = undefined;
@@ -59,7 +245,9 @@ abstract class StateLogSubscriber<
     }
 
     this.stateByBlockNumber[wantedBlock.number] = ok;
+    this.blockHashes[wantedBlock.number] = wantedBlock.hash;
     this.lastSeenEventBlock = wantedBlock;
+    await this.saveSnapshot();
 
     logger.debug("[StateLogSubscriber] initialize done");
   }
@@ -68,18 +256,27 @@ abstract class StateLogSubscriber<
    * as it's already handle by `handleLog`, this.lastSeenEventBlock is equal
    * to current (log.blockNumber, log.blockHash)
    */
-  abstract stateHandleLog(state: T, log: Log, event?: ParsedEvent): T;
+  abstract stateHandleLog(
+    state: T,
+    log: Log,
+    event?: ParsedEvent,
+    ctx?: LogSubscriber.HandleLogContext
+  ): T;
 
   /** handle received log by creating new cached state if we found a block that is newer
    * than our cache. Then let implementation `stateHandleLog` modify the state.
    */
-  public async handleLog(log: Log, event?: ParsedEvent): Promise<void> {
+  public async handleLog(
+    log: Log,
+    event?: ParsedEvent,
+    ctx?: LogSubscriber.HandleLogContext
+  ): Promise<void> {
     return this.cacheLock.runExclusive(() => {
       this.checkIfLastSeenEventBlockExists();
       let currentState = this.stateByBlockNumber[log.blockNumber];
       if (!currentState) {
         this.stateByBlockNumber[log.blockNumber] = this.copy(
-          this.stateByBlockNumber[this.lastSeenEventBlock!.number]
+          this.getLatestState()
         );
         currentState = this.stateByBlockNumber[log.blockNumber];
       }
@@ -88,27 +285,222 @@ abstract class StateLogSubscriber<
         number: log.blockNumber,
         hash: log.blockHash,
       };
+      this.setBlockHash(log.blockNumber, log.blockHash);
 
       this.stateByBlockNumber[log.blockNumber] = this.stateHandleLog(
         currentState,
         log,
-        event
+        event,
+        ctx
       );
     });
   }
 
+  /* record hash of handled blocks, including blocks without log */
+  public onBlockHandled(block: BlockManager.Block): void {
+    this.setBlockHash(block.number, block.hash);
+  }
+
+  /* notify state diff listeners and save a snapshot (see enableSnapshots) once logs of `block` are applied */
+  public async onBlockEnd(block: BlockManager.Block): Promise<void> {
+    if (!(block.number in this.stateByBlockNumber)) {
+      return;
+    }
+
+    const previousNumber = this.getStateBlockNumber(block.number - 1);
+    if (this.stateDiffListeners.length > 0 && previousNumber !== undefined) {
+      this.emitStateDiff(
+        block.number,
+        false,
+        this.stateByBlockNumber[previousNumber],
+        this.stateByBlockNumber[block.number]
+      );
+    }
+
+    const { lastBlockNumber, interval } = this.snapshot || { interval: 1 };
+    if (lastBlockNumber === undefined || block.number - lastBlockNumber >= interval) {
+      await this.saveSnapshot();
+    }
+  }
+
+  /**
+   * Save the latest state in `store` with `key` after initialization and after blocks with logs,
+   * at most once every `interval` blocks as saving a snapshot delays block handling.
+   *
+   * With BlockManager `checkpointStore` and the `checkpointKey` subscribe option, the subscriber is
+   * then restored from its snapshot on restart and catches up from there instead of calling
+   * stateInitialize. With an `interval` greater than 1 the snapshot may be older than the checkpoint,
+   * logs after the snapshot block are then delivered again.
+   */
+  public enableSnapshots(store: SnapshotStore, key: string, interval: number = 1) {
+    this.snapshot = { store, key, interval };
+  }
+
+  /* serialize `state` for snapshots, override it for states which are not plain json */
+  protected serialize(state: T): string {
+    return JSON.stringify(state);
+  }
+
+  /* deserialize a state serialized by `serialize` */
+  protected deserialize(data: string): T {
+    return JSON.parse(data);
+  }
+
+  /* save the latest state now, whatever the snapshots interval is */
+  public async saveSnapshot() {
+    if (!this.snapshot || !this.lastSeenEventBlock) {
+      return;
+    }
+
+    const block = {
+      number: this.lastSeenEventBlock.number,
+      hash: this.lastSeenEventBlock.hash,
+    };
+    try {
+      await this.snapshot.store.save(this.snapshot.key, {
+        block,
+        data: this.serialize(this.getLatestState()),
+      });
+      this.snapshot.lastBlockNumber = block.number;
+    } catch (e) {
+      logger.error("[StateLogSubscriber] saveSnapshot(): failure", {
+        data: { block, error: e instanceof Error ? e.message : e },
+      });
+    }
+  }
+
+  /**
+   * restore the state from its snapshot, BlockManager has verified that `checkpoint.block` is
+   * canonical. A snapshot at the last block with logs of the checkpoint resumes at the checkpoint
+   * block, there is no log between them. An older snapshot, saved since the checkpoint initialization,
+   * resumes at its own block which BlockManager verifies. Without snapshots it always fails as states
+   * only live in memory, the subscriber is then initialized again.
+   */
+  public async restore(
+    checkpoint: LogSubscriber.Checkpoint
+  ): Promise<LogSubscriber.ErrorOrRestoredBlock> {
+    if (!this.snapshot) {
+      return { error: "FailedInitialize", ok: undefined };
+    }
+
+    const lastBlock = checkpoint.lastSeenEventBlock || checkpoint.initializedAt;
+    let snapshot: SnapshotStore.Snapshot | undefined;
+    try {
+      snapshot = await this.snapshot.store.load(this.snapshot.key);
+    } catch (e) {
+      logger.error("[StateLogSubscriber] restore(): failed loading snapshot", {
+        data: { error: e instanceof Error ? e.message : e },
+      });
+      return { error: "FailedInitialize", ok: undefined };
+    }
+    if (
+      !snapshot ||
+      snapshot.block.number < checkpoint.initializedAt.number ||
+      snapshot.block.number > lastBlock.number ||
+      (snapshot.block.number === lastBlock.number &&
+        snapshot.block.hash !== lastBlock.hash)
+    ) {
+      logger.warn("[StateLogSubscriber] restore(): no matching snapshot", {
+        data: { lastBlock, snapshotBlock: snapshot && snapshot.block },
+      });
+      return { error: "FailedInitialize", ok: undefined };
+    }
+
+    const block = snapshot.block;
+    this.stateByBlockNumber = {
+      [block.number]: this.deserialize(snapshot.data),
+    };
+    this.prunedBefore = undefined;
+    this.blockHashes = { [block.number]: block.hash };
+    this.orphanedBlockNumbers = {};
+    this.prunedBlockNumbers = {};
+    this.lastSeenEventBlock = block;
+    this.snapshot.lastBlockNumber = block.number;
+    logger.debug("[StateLogSubscriber] restore() done", { data: { block } });
+
+    return {
+      error: undefined,
+      ok: block.number === lastBlock.number ? checkpoint.block : block,
+    };
+  }
+
+  private setBlockHash(number: number, hash: string) {
+    this.blockHashes[number] = hash;
+    delete this.orphanedBlockNumbers[hash]; // canonical again after another reorg
+  }
+
   /* rollback state by using state in cache */
   public rollback(block: BlockManager.Block): void {
     if (!this.lastSeenEventBlock) {
       return;
     }
 
-    for (let i = block.number + 1; i <= this.lastSeenEventBlock.number; ++i) {
+    for (let i = this.lastSeenEventBlock.number; i > block.number; --i) {
       if (this.stateByBlockNumber[i]) {
+        const previousNumber = this.getStateBlockNumber(i - 1);
+        if (this.stateDiffListeners.length > 0 && previousNumber !== undefined) {
+          this.emitStateDiff(
+            i,
+            true,
+            this.stateByBlockNumber[i],
+            this.stateByBlockNumber[previousNumber]
+          );
+        }
         delete this.stateByBlockNumber[i];
       }
     }
+    for (const [number, hash] of Object.entries(this.blockHashes)) {
+      if (parseInt(number, 10) > block.number) {
+        this.orphanedBlockNumbers[hash] = parseInt(number, 10);
+        delete this.blockHashes[parseInt(number, 10)];
+      }
+    }
+    this.setBlockHash(block.number, block.hash);
     this.lastSeenEventBlock = block;
+    if (this.snapshot && (this.snapshot.lastBlockNumber || 0) > block.number) {
+      /* the snapshot is orphaned, save the next one without waiting for the interval */
+      this.snapshot.lastBlockNumber = undefined;
+    }
+  }
+
+  /* drop states which can't be rolled back to anymore, the newest state at or before `blockNumber`
+   * is kept as rollbacks can go back to it.
+   */
+  public prune(blockNumber: number): void {
+    const baseNumber = this.getStateBlockNumber(blockNumber);
+    if (baseNumber === undefined) {
+      return;
+    }
+
+    let pruned = 0;
+    for (const number of this.getCachedBlockNumbers()) {
+      if (number >= baseNumber) {
+        break;
+      }
+      delete this.stateByBlockNumber[number];
+      pruned++;
+    }
+
+    /* pruned hashes are kept to tell them apart from unknown ones */
+    for (const [number, hash] of Object.entries(this.blockHashes)) {
+      if (parseInt(number, 10) < baseNumber) {
+        this.prunedBlockNumbers[hash] = parseInt(number, 10);
+        delete this.blockHashes[parseInt(number, 10)];
+      }
+    }
+    for (const [hash, number] of Object.entries(this.orphanedBlockNumbers)) {
+      if (number < baseNumber) {
+        delete this.orphanedBlockNumbers[hash];
+      }
+    }
+
+    if (pruned > 0) {
+      this.prunedBefore = baseNumber;
+      this.prunedStates += pruned;
+      logger.debug("[StateLogSubscriber] prune()", {
+        data: { blockNumber, pruned },
+      });
+    }
   }
 }
 
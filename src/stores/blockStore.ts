@@ -0,0 +1,18 @@
+import BlockManager from "../blockManager";
+
+/**
+ * BlockStore persists the BlockManager blocks cache, so that the cached chain can be reloaded
+ * after a restart with BlockManager.restore.
+ */
+abstract class BlockStore {
+  /**
+   * load all stored blocks
+   */
+  abstract load(): Promise<BlockManager.Block[]>;
+  /**
+   * replace stored blocks with `blocks`
+   */
+  abstract save(blocks: BlockManager.Block[]): Promise<void>;
+}
+
+export default BlockStore;
@@ -0,0 +1,20 @@
+import LogSubscriber from "../logSubscriber";
+
+/**
+ * CheckpointStore persists subscribers checkpoints by key, so that subscribers can resume
+ * from their checkpoint after a restart instead of being initialized again.
+ */
+abstract class CheckpointStore {
+  /**
+   * load checkpoint stored with `key`
+   */
+  abstract load(key: string): Promise<LogSubscriber.Checkpoint | undefined>;
+  /**
+   * save all `checkpoints` by key
+   */
+  abstract save(
+    checkpoints: Record<string, LogSubscriber.Checkpoint>
+  ): Promise<void>;
+}
+
+export default CheckpointStore;
@@ -0,0 +1,38 @@
+import { promises as fs } from "fs";
+import path from "path";
+import SnapshotStore from "./snapshotStore";
+
+/**
+ * FileSnapshotStore is an implementation of SnapshotStore which writes each snapshot in a json
+ * file of `directory`. Files are written to a temporary file first then renamed, so that a crash
+ * never leaves a partially written snapshot.
+ */
+class FileSnapshotStore extends SnapshotStore {
+  constructor(private directory: string) {
+    super();
+  }
+
+  async load(key: string): Promise<SnapshotStore.Snapshot | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.getPath(key), "utf8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  async save(key: string, snapshot: SnapshotStore.Snapshot): Promise<void> {
+    const filePath = this.getPath(key);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${filePath}.tmp`, JSON.stringify(snapshot));
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  private getPath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
+
+export default FileSnapshotStore;
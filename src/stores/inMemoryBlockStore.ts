@@ -0,0 +1,20 @@
+import BlockManager from "../blockManager";
+import BlockStore from "./blockStore";
+
+/**
+ * InMemoryBlockStore is an implementation of BlockStore which keeps blocks in memory,
+ * blocks do not survive a restart of the process.
+ */
+class InMemoryBlockStore extends BlockStore {
+  private blocks: BlockManager.Block[] = [];
+
+  async load(): Promise<BlockManager.Block[]> {
+    return this.blocks.map((block) => ({ ...block }));
+  }
+
+  async save(blocks: BlockManager.Block[]): Promise<void> {
+    this.blocks = blocks.map((block) => ({ ...block }));
+  }
+}
+
+export default InMemoryBlockStore;
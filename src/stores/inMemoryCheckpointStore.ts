@@ -0,0 +1,22 @@
+import LogSubscriber from "../logSubscriber";
+import CheckpointStore from "./checkpointStore";
+
+/**
+ * InMemoryCheckpointStore is an implementation of CheckpointStore which keeps checkpoints in memory,
+ * checkpoints do not survive a restart of the process.
+ */
+class InMemoryCheckpointStore extends CheckpointStore {
+  private checkpoints: Record<string, LogSubscriber.Checkpoint> = {};
+
+  async load(key: string): Promise<LogSubscriber.Checkpoint | undefined> {
+    return this.checkpoints[key];
+  }
+
+  async save(
+    checkpoints: Record<string, LogSubscriber.Checkpoint>
+  ): Promise<void> {
+    this.checkpoints = { ...this.checkpoints, ...checkpoints };
+  }
+}
+
+export default InMemoryCheckpointStore;
@@ -0,0 +1,19 @@
+import SnapshotStore from "./snapshotStore";
+
+/**
+ * InMemorySnapshotStore is an implementation of SnapshotStore which keeps snapshots in memory,
+ * snapshots do not survive a restart of the process.
+ */
+class InMemorySnapshotStore extends SnapshotStore {
+  private snapshots: Record<string, SnapshotStore.Snapshot> = {};
+
+  async load(key: string): Promise<SnapshotStore.Snapshot | undefined> {
+    return this.snapshots[key];
+  }
+
+  async save(key: string, snapshot: SnapshotStore.Snapshot): Promise<void> {
+    this.snapshots[key] = snapshot;
+  }
+}
+
+export default InMemorySnapshotStore;
@@ -0,0 +1,61 @@
+import BlockManager from "../blockManager";
+import LogSubscriber from "../logSubscriber";
+import TransactionalSink from "./transactionalSink";
+
+/**
+ * InMemoryTransactionalSink is an implementation of TransactionalSink which keeps values by key in
+ * memory, writes are only visible to `getCommitted` once committed.
+ */
+class InMemoryTransactionalSink<T> extends TransactionalSink {
+  private committed: Record<string, T> = {};
+  private pending?: Record<string, T>;
+  private checkpoints: Record<string, LogSubscriber.Checkpoint> = {};
+
+  async prepare(block: BlockManager.BlockWithoutParentHash): Promise<void> {
+    this.pending = {};
+  }
+
+  async commit(
+    block: BlockManager.BlockWithoutParentHash,
+    checkpoints: Record<string, LogSubscriber.Checkpoint>
+  ): Promise<void> {
+    this.committed = { ...this.committed, ...this.pending };
+    this.checkpoints = { ...this.checkpoints, ...checkpoints };
+    this.pending = undefined;
+  }
+
+  async abort(block: BlockManager.BlockWithoutParentHash): Promise<void> {
+    this.pending = undefined;
+  }
+
+  /**
+   * write `value` in the prepared transaction
+   */
+  set(key: string, value: T) {
+    if (!this.pending) {
+      throw new Error("no prepared transaction");
+    }
+    this.pending[key] = value;
+  }
+
+  /**
+   * read `key` as seen by the prepared transaction
+   */
+  get(key: string): T | undefined {
+    return this.pending && key in this.pending
+      ? this.pending[key]
+      : this.committed[key];
+  }
+
+  getCommitted(key: string): T | undefined {
+    return this.committed[key];
+  }
+
+  async loadCheckpoint(
+    key: string
+  ): Promise<LogSubscriber.Checkpoint | undefined> {
+    return this.checkpoints[key];
+  }
+}
+
+export default InMemoryTransactionalSink;
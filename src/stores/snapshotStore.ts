@@ -0,0 +1,29 @@
+import BlockManager from "../blockManager";
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+namespace SnapshotStore {
+  /**
+   * Serialized state of a subscriber after all logs until `block` (included) have been applied.
+   */
+  export type Snapshot = {
+    block: BlockManager.BlockWithoutParentHash;
+    data: string;
+  };
+}
+
+/**
+ * SnapshotStore persists subscribers states by key, so that a subscriber can be restored from its
+ * snapshot after a restart instead of being initialized again.
+ */
+abstract class SnapshotStore {
+  /**
+   * load snapshot stored with `key`
+   */
+  abstract load(key: string): Promise<SnapshotStore.Snapshot | undefined>;
+  /**
+   * replace snapshot stored with `key`
+   */
+  abstract save(key: string, snapshot: SnapshotStore.Snapshot): Promise<void>;
+}
+
+export default SnapshotStore;
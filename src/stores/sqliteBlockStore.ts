@@ -0,0 +1,109 @@
+import BlockManager from "../blockManager";
+import BlockStore from "./blockStore";
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+namespace SqliteBlockStore {
+  export type CachedBlockRow = {
+    number: number;
+    hash: string;
+    parentHash: string;
+    timestamp: number | null;
+    baseFeePerGas: string | null;
+    gasUsed: string | null;
+  };
+
+  /**
+   * Subset of a PrismaClient generated from prisma/schema.prisma used by SqliteBlockStore.
+   */
+  export type PrismaClient = {
+    cachedBlock: {
+      findMany: (args: {
+        orderBy: { number: "asc" | "desc" };
+      }) => Promise<CachedBlockRow[]>;
+      deleteMany: (args: {
+        where: { number: { notIn: number[] } };
+      }) => Promise<unknown>;
+      upsert: (args: {
+        where: { number: number };
+        create: CachedBlockRow;
+        update: Omit<CachedBlockRow, "number">;
+      }) => Promise<unknown>;
+    };
+    $transaction: (queries: Promise<unknown>[]) => Promise<unknown>;
+  };
+}
+
+const toRow = (block: BlockManager.Block): SqliteBlockStore.CachedBlockRow => ({
+  number: block.number,
+  hash: block.hash,
+  parentHash: block.parentHash,
+  timestamp: block.timestamp ?? null,
+  baseFeePerGas: block.baseFeePerGas ?? null,
+  gasUsed: block.gasUsed ?? null,
+});
+
+/**
+ * SqliteBlockStore is an implementation of BlockStore which persists blocks in the `CachedBlock`
+ * table of a sqlite database through prisma.
+ */
+class SqliteBlockStore extends BlockStore {
+  private persistedHashes: Record<number, string> | undefined; // block hash by number already in db
+
+  constructor(private prisma: SqliteBlockStore.PrismaClient) {
+    super();
+  }
+
+  async load(): Promise<BlockManager.Block[]> {
+    const rows = await this.prisma.cachedBlock.findMany({
+      orderBy: { number: "asc" },
+    });
+
+    this.persistedHashes = {};
+    for (const row of rows) {
+      this.persistedHashes[row.number] = row.hash;
+    }
+
+    return rows.map((row) => ({
+      number: row.number,
+      hash: row.hash,
+      parentHash: row.parentHash,
+      ...(row.timestamp !== null ? { timestamp: row.timestamp } : {}),
+      ...(row.baseFeePerGas !== null
+        ? { baseFeePerGas: row.baseFeePerGas }
+        : {}),
+      ...(row.gasUsed !== null ? { gasUsed: row.gasUsed } : {}),
+    }));
+  }
+
+  async save(blocks: BlockManager.Block[]): Promise<void> {
+    if (!this.persistedHashes) {
+      await this.load();
+    }
+
+    /* only write blocks that changed since last save */
+    const changedBlocks = blocks.filter(
+      (block) => this.persistedHashes![block.number] !== block.hash
+    );
+
+    await this.prisma.$transaction([
+      this.prisma.cachedBlock.deleteMany({
+        where: { number: { notIn: blocks.map((block) => block.number) } },
+      }),
+      ...changedBlocks.map((block) => {
+        const { number, ...fields } = toRow(block);
+        return this.prisma.cachedBlock.upsert({
+          where: { number },
+          create: { number, ...fields },
+          update: fields,
+        });
+      }),
+    ]);
+
+    this.persistedHashes = {};
+    for (const block of blocks) {
+      this.persistedHashes[block.number] = block.hash;
+    }
+  }
+}
+
+export default SqliteBlockStore;
@@ -0,0 +1,63 @@
+import LogSubscriber from "../logSubscriber";
+import CheckpointStore from "./checkpointStore";
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+namespace SqliteCheckpointStore {
+  export type SubscriberCheckpointRow = {
+    key: string;
+    checkpoint: string;
+  };
+
+  /**
+   * Subset of a PrismaClient generated from prisma/schema.prisma used by SqliteCheckpointStore.
+   */
+  export type PrismaClient = {
+    subscriberCheckpoint: {
+      findUnique: (args: {
+        where: { key: string };
+      }) => Promise<SubscriberCheckpointRow | null>;
+      upsert: (args: {
+        where: { key: string };
+        create: SubscriberCheckpointRow;
+        update: Omit<SubscriberCheckpointRow, "key">;
+      }) => Promise<unknown>;
+    };
+    $transaction: (queries: Promise<unknown>[]) => Promise<unknown>;
+  };
+}
+
+/**
+ * SqliteCheckpointStore is an implementation of CheckpointStore which persists checkpoints in the
+ * `SubscriberCheckpoint` table of a sqlite database through prisma.
+ */
+class SqliteCheckpointStore extends CheckpointStore {
+  constructor(private prisma: SqliteCheckpointStore.PrismaClient) {
+    super();
+  }
+
+  async load(key: string): Promise<LogSubscriber.Checkpoint | undefined> {
+    const row = await this.prisma.subscriberCheckpoint.findUnique({
+      where: { key },
+    });
+    if (!row) {
+      return undefined;
+    }
+    return JSON.parse(row.checkpoint);
+  }
+
+  async save(
+    checkpoints: Record<string, LogSubscriber.Checkpoint>
+  ): Promise<void> {
+    await this.prisma.$transaction(
+      Object.entries(checkpoints).map(([key, checkpoint]) =>
+        this.prisma.subscriberCheckpoint.upsert({
+          where: { key },
+          create: { key, checkpoint: JSON.stringify(checkpoint) },
+          update: { checkpoint: JSON.stringify(checkpoint) },
+        })
+      )
+    );
+  }
+}
+
+export default SqliteCheckpointStore;
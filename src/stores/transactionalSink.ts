@@ -0,0 +1,37 @@
+import BlockManager from "../blockManager";
+import LogSubscriber from "../logSubscriber";
+
+/**
+ * TransactionalSink is a store shared by subscribers, BlockManager coordinates its transactions so
+ * that the changes of every subscriber for a block (or a batch of blocks during a catch up) are
+ * persisted together with their checkpoints, or not at all.
+ *
+ * Subscribers write through the sink in handleLog, BlockManager prepares a transaction before
+ * applying logs and commits or aborts it once they are applied.
+ */
+abstract class TransactionalSink {
+  /**
+   * start a transaction, `block` is the block being handled
+   */
+  abstract prepare(block: BlockManager.BlockWithoutParentHash): Promise<void>;
+  /**
+   * persist the changes of the transaction with `checkpoints` by key, logs have been applied
+   * until `block` (included). A failure stops block handling.
+   */
+  abstract commit(
+    block: BlockManager.BlockWithoutParentHash,
+    checkpoints: Record<string, LogSubscriber.Checkpoint>
+  ): Promise<void>;
+  /**
+   * drop the changes of the transaction
+   */
+  abstract abort(block: BlockManager.BlockWithoutParentHash): Promise<void>;
+  /**
+   * load the last checkpoint committed with `key`, used by BlockManager.resume
+   */
+  abstract loadCheckpoint(
+    key: string
+  ): Promise<LogSubscriber.Checkpoint | undefined>;
+}
+
+export default TransactionalSink;
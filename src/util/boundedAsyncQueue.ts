@@ -0,0 +1,90 @@
+/**
+ * BoundedAsyncQueue is a single consumer async iterator fed by `push`.
+ *
+ * At most `size` items are buffered, `push` waits until the consumer makes room so that a slow
+ * consumer slows the producer down.
+ */
+class BoundedAsyncQueue<T> implements AsyncIterableIterator<T> {
+  private buffer: T[] = [];
+  private waitingConsumer?: (result: IteratorResult<T>) => void;
+  private waitingProducers: (() => void)[] = [];
+  private closed: boolean = false;
+
+  constructor(private size: number, private onReturn?: () => void) {
+    if (size < 1) {
+      throw new Error("size must be at least 1");
+    }
+  }
+
+  /**
+   * Add `item` to the queue, resolves once the item is buffered or consumed. Items pushed after
+   * close are dropped.
+   */
+  public async push(item: T): Promise<void> {
+    if (this.waitingConsumer) {
+      const consumer = this.waitingConsumer;
+      this.waitingConsumer = undefined;
+      consumer({ value: item, done: false });
+      return;
+    }
+
+    while (this.buffer.length >= this.size && !this.closed) {
+      await new Promise<void>((resolve) => this.waitingProducers.push(resolve));
+    }
+
+    if (this.closed) {
+      return;
+    }
+    this.buffer.push(item);
+  }
+
+  /**
+   * Stop the queue, buffered items are still delivered before the iterator is done.
+   */
+  public close() {
+    this.closed = true;
+    this.waitingProducers.forEach((resolve) => resolve());
+    this.waitingProducers = [];
+    if (this.waitingConsumer) {
+      this.waitingConsumer({ value: undefined, done: true });
+      this.waitingConsumer = undefined;
+    }
+  }
+
+  public next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift()!;
+      const producer = this.waitingProducers.shift();
+      if (producer) {
+        producer();
+      }
+      return Promise.resolve({ value, done: false });
+    }
+
+    if (this.closed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve) => {
+      this.waitingConsumer = resolve;
+    });
+  }
+
+  /**
+   * Called when the consumer stops iterating (break in a for await loop).
+   */
+  public async return(): Promise<IteratorResult<T>> {
+    this.buffer = [];
+    this.close();
+    if (this.onReturn) {
+      this.onReturn();
+    }
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
+
+export default BoundedAsyncQueue;
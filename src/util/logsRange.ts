@@ -0,0 +1,21 @@
+/**
+ * Error messages returned by rpc providers when an eth_getLogs query covers too many blocks or
+ * returns too many logs. The query succeeds once the block range is reduced.
+ */
+const rangeLimitErrorPatterns: RegExp[] = [
+  /query returned more than \d+ results/,
+  /block range (is )?too (large|wide|big)/,
+  /exceed(s|ed)? (the )?max(imum)? block range/,
+  /ranges? over \d+ blocks/,
+  /limited to a [\d,]+ (block )?range/,
+  /response size exceeded/,
+  /too many (results|logs)/,
+];
+
+/**
+ * isLogsRangeLimitError returns true if `error` means that the eth_getLogs block range has to be split.
+ */
+export const isLogsRangeLimitError = (error: string): boolean => {
+  const message = error.toLowerCase();
+  return rangeLimitErrorPatterns.some((pattern) => pattern.test(message));
+};
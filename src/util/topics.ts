@@ -0,0 +1,83 @@
+import { Log } from "@ethersproject/providers";
+
+/**
+ * A topic filter as accepted by eth_getLogs. Each position is either:
+ * - `null`: any topic is accepted at this position
+ * - `string`: the topic must be equal to this value
+ * - `string[]`: the topic must be equal to one of these values
+ */
+export type TopicFilter = string | string[] | null;
+
+export type Topics = TopicFilter[];
+
+const normalizeTopicFilter = (filter: TopicFilter): string[] | null => {
+  if (filter === null || filter === undefined) {
+    return null;
+  }
+  const topics = Array.isArray(filter) ? filter : [filter];
+  if (topics.length === 0) {
+    return null;
+  }
+  return topics.map((topic) => topic.toLowerCase());
+};
+
+/**
+ * mergeTopics merges the topics of several subscriptions into a single filter usable by eth_getLogs.
+ *
+ * eth_getLogs only accepts one topics filter for all addresses, each position is an OR over accepted
+ * topics. The merged filter is the union of every subscription filter, position by position. As soon as
+ * one subscription does not restrict a position, the position becomes `null`.
+ *
+ * The merged filter is a superset of every subscription filter, logs still have to be matched against
+ * each subscription with `logMatchesTopics`.
+ */
+export const mergeTopics = (topicsList: Topics[]): Topics => {
+  if (topicsList.length === 0) {
+    return [];
+  }
+
+  const length = Math.max(...topicsList.map((topics) => topics.length));
+  const merged: Topics = [];
+  for (let i = 0; i < length; ++i) {
+    let union: Set<string> | null = new Set<string>();
+    for (const topics of topicsList) {
+      const filter = i < topics.length ? normalizeTopicFilter(topics[i]) : null;
+      if (!filter) {
+        union = null;
+        break;
+      }
+      filter.forEach((topic) => union!.add(topic));
+    }
+
+    if (!union) {
+      merged.push(null);
+    } else {
+      const values = Array.from(union);
+      merged.push(values.length === 1 ? values[0] : values);
+    }
+  }
+
+  /* trailing null are useless */
+  while (merged.length > 0 && merged[merged.length - 1] === null) {
+    merged.pop();
+  }
+
+  return merged;
+};
+
+/**
+ * logMatchesTopics returns true if `log` is accepted by `topics` filter.
+ */
+export const logMatchesTopics = (log: Log, topics: Topics): boolean => {
+  for (let i = 0; i < topics.length; ++i) {
+    const filter = normalizeTopicFilter(topics[i]);
+    if (!filter) {
+      continue;
+    }
+    const topic = log.topics[i];
+    if (!topic || !filter.includes(topic.toLowerCase())) {
+      return false;
+    }
+  }
+  return true;
+};
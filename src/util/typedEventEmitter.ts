@@ -0,0 +1,93 @@
+import logger from "./logger";
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+namespace TypedEventEmitter {
+  export type Listener<Payload> = (payload: Payload) => void | Promise<void>;
+}
+
+/**
+ * TypedEventEmitter is a minimal event emitter where every event name has a typed payload.
+ *
+ * Listeners are called synchronously in registration order. A listener throwing or rejecting is
+ * logged and never interrupts the emitter, an `error` event is not special.
+ */
+class TypedEventEmitter<Events extends Record<string, any>> {
+  private listeners: {
+    [Event in keyof Events]?: TypedEventEmitter.Listener<Events[Event]>[];
+  } = {};
+
+  private forwards: TypedEventEmitter<Events>[] = [];
+
+  /**
+   * Register `listener` for `event`, returns a function removing the listener.
+   */
+  public on<Event extends keyof Events>(
+    event: Event,
+    listener: TypedEventEmitter.Listener<Events[Event]>
+  ): () => void {
+    const listeners = this.listeners[event] || [];
+    listeners.push(listener);
+    this.listeners[event] = listeners;
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Register `listener` for the next `event` only.
+   */
+  public once<Event extends keyof Events>(
+    event: Event,
+    listener: TypedEventEmitter.Listener<Events[Event]>
+  ): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      return listener(payload);
+    });
+    return off;
+  }
+
+  public off<Event extends keyof Events>(
+    event: Event,
+    listener: TypedEventEmitter.Listener<Events[Event]>
+  ) {
+    const listeners = this.listeners[event];
+    if (!listeners) {
+      return;
+    }
+    this.listeners[event] = listeners.filter((l) => l !== listener);
+  }
+
+  /**
+   * Emit every event of this emitter on `target` too.
+   */
+  public forwardTo(target: TypedEventEmitter<Events>) {
+    this.forwards.push(target);
+  }
+
+  protected emit<Event extends keyof Events>(
+    event: Event,
+    payload: Events[Event]
+  ) {
+    for (const listener of [...(this.listeners[event] || [])]) {
+      try {
+        const res = listener(payload);
+        if (res instanceof Promise) {
+          res.catch((e) => this.handleListenerError(event, e));
+        }
+      } catch (e) {
+        this.handleListenerError(event, e);
+      }
+    }
+
+    for (const target of this.forwards) {
+      target.emit(event, payload);
+    }
+  }
+
+  private handleListenerError(event: keyof Events, e: unknown) {
+    logger.error("[TypedEventEmitter] emit(): listener failed", {
+      data: { event, error: e instanceof Error ? e.message : e },
+    });
+  }
+}
+
+export default TypedEventEmitter;
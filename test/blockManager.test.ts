@@ -7,6 +7,12 @@ import { defaultLogger, enableLogging } from "../src/util/logger";
 import BlockManager from "../src/blockManager";
 import LogSubscriber from "../src/logSubscriber";
 import StateLogSubScriber from '../src/stateLogSubscriber';
+import JournaledStateLogSubscriber from "../src/journaledStateLogSubscriber";
+import ConfirmedLogSubscriber from "../src/confirmedLogSubscriber";
+import InMemoryBlockStore from "../src/stores/inMemoryBlockStore";
+import InMemoryCheckpointStore from "../src/stores/inMemoryCheckpointStore";
+import InMemoryTransactionalSink from "../src/stores/inMemoryTransactionalSink";
+import InMemorySnapshotStore from "../src/stores/inMemorySnapshotStore";
 import { Log } from "@ethersproject/providers";
 
 enableLogging(defaultLogger);
@@ -113,6 +119,28 @@ class MockRpc {
       return this.getLogs(from, to, addresses);
     };
   }
+
+  limitedRangeGetLogs(
+    maxSpan: number,
+    queriedRanges: [number, number][]
+  ): (
+    from: number,
+    to: number,
+    addresses: BlockManager.AddressAndTopics[]
+  ) => Promise<BlockManager.ErrorOrLogs> {
+    return async (
+      from: number,
+      to: number,
+      addresses: BlockManager.AddressAndTopics[]
+    ) => {
+      queriedRanges.push([from, to]);
+      if (to - from + 1 > maxSpan) {
+        return { error: `block range too large, max ${maxSpan}`, ok: undefined };
+      }
+
+      return this.getLogs(from, to, addresses);
+    };
+  }
 }
 
 class MockSubscriber extends StateLogSubScriber<string, any> {
@@ -153,6 +181,134 @@ class MockSubscriber extends StateLogSubScriber<string, any> {
   }
 }
 
+/* same as MockSubscriber with a journaled state */
+class MockJournaledSubscriber extends JournaledStateLogSubscriber<
+  { value: string },
+  any
+> {
+  constructor(
+    public address: string,
+    public blockByNumber: Record<number, BlockLogsState>
+  ) {
+    super();
+  }
+
+  async stateInitialize(
+    wantedBlock: BlockManager.BlockWithoutParentHash
+  ): Promise<LogSubscriber.ErrorOrState<{ value: string }>> {
+    const block = this.blockByNumber[wantedBlock.number];
+    if (!block) {
+      return { error: "FailedInitialize", ok: undefined };
+    }
+
+    return {
+      error: undefined,
+      ok: { value: block.state[this.address] },
+    };
+  }
+
+  stateHandleLog(state: { value: string }, log: Log) {
+    const previous = state.value;
+    state.value = `${state.value}-${log.blockHash}`;
+    return (state: { value: string }) => {
+      state.value = previous;
+    };
+  }
+
+  getAddressAndTopics(): BlockManager.AddressAndTopics {
+    return {
+      address: this.address,
+      topics: [],
+    };
+  }
+}
+
+/* subscriber which keeps its state outside of the process */
+class MockExternalStateSubscriber extends LogSubscriber<any> {
+  public removedLogs: Log[] = [];
+  public contexts: LogSubscriber.HandleLogContext[] = [];
+
+  constructor(public address: string, public logs: Log[] = []) {
+    super();
+  }
+
+  async initialize(
+    block: BlockManager.BlockWithoutParentHash
+  ): Promise<LogSubscriber.InitializeErrorOrBlock> {
+    this.logs = [];
+    return undefined;
+  }
+
+  async handleLog(
+    log: Log,
+    event?: any,
+    ctx?: LogSubscriber.HandleLogContext
+  ): Promise<void> {
+    this.logs.push(log);
+    this.contexts.push(ctx!);
+  }
+
+  async handleRemovedLog(log: Log): Promise<void> {
+    this.removedLogs.push(log);
+  }
+
+  rollback(block: BlockManager.Block): void {
+    this.logs = this.logs.filter((log) => log.blockNumber <= block.number);
+  }
+
+  getAddressAndTopics(): BlockManager.AddressAndTopics {
+    return {
+      address: this.address,
+      topics: [],
+    };
+  }
+}
+
+/* subscriber failing the next `failures` handleLog calls */
+class MockFailingSubscriber extends MockExternalStateSubscriber {
+  constructor(public address: string, public failures: number) {
+    super(address);
+  }
+
+  async handleLog(
+    log: Log,
+    event?: any,
+    ctx?: LogSubscriber.HandleLogContext
+  ): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("failing handleLog");
+    }
+    return super.handleLog(log, event, ctx);
+  }
+}
+
+class MockConfirmedSubscriber extends ConfirmedLogSubscriber<any> {
+  public logs: Log[] = [];
+
+  constructor(public address: string) {
+    super();
+  }
+
+  async initialize(
+    block: BlockManager.BlockWithoutParentHash
+  ): Promise<LogSubscriber.InitializeErrorOrBlock> {
+    this.logs = [];
+    return undefined;
+  }
+
+  async handleConfirmedLog(log: Log): Promise<void> {
+    this.logs.push(log);
+  }
+
+  getAddressAndTopics(): BlockManager.AddressAndTopics {
+    return {
+      address: this.address,
+      topics: [],
+    };
+  }
+}
+
 const addressSubscriber1 = "0xf237dE5664D3c2D2545684E76fef02A3A58A364c";
 const addressSubscriber2 = "0xD087ff96281dcf722AEa82aCA57E8545EA9e6C96";
 
@@ -1123,6 +1279,166 @@ describe("Block Manager", () => {
       );
     });
 
+    it("route logs matching subscriber topics", async () => {
+      const topicA =
+        "0x000000000000000000000000000000000000000000000000000000000000000a";
+      const topicB =
+        "0x000000000000000000000000000000000000000000000000000000000000000b";
+
+      const blockChain: Record<number, BlockLogsState> = {
+        1: blockChain1[1],
+        2: {
+          block: blockChain1[2].block,
+          logs: [
+            { ...generateMockLog(2, "0x2", addressSubscriber1), topics: [topicA] },
+            { ...generateMockLog(2, "0x2", addressSubscriber1), topics: [topicB] },
+          ],
+          state: blockChain1[2].state,
+        },
+      };
+      const mockRpc = new MockRpc(blockChain);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain);
+
+      await blockManager.initialize(blockChain[1].block);
+
+      await blockManager.subscribeToLogs(
+        { address: addressSubscriber1, topics: [topicA] },
+        subscriber1
+      );
+
+      await blockManager.handleBlock(blockChain[2].block);
+
+      assert.equal(subscriber1.getLatestState(), "sub1-0x1-0x2");
+    });
+
+    it("multiple subscribers for the same address", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      const subscriber1Bis = new MockSubscriber(addressSubscriber1, blockChain1);
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const handle1 = await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+
+      const handle1Bis = await blockManager.subscribeToLogs(
+        subscriber1Bis.getAddressAndTopics(),
+        subscriber1Bis
+      );
+
+      assert.notEqual(handle1, handle1Bis);
+
+      await assert.rejects(
+        blockManager.subscribeToLogs(
+          subscriber1.getAddressAndTopics(),
+          subscriber1
+        )
+      );
+
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[3].state[subscriber1.address]
+      );
+      assert.deepEqual(subscriber1.initializedAt, blockChain1[1].block);
+
+      assert.equal(
+        subscriber1Bis.getLatestState(),
+        `${blockChain1[2].state[subscriber1.address]}-0x3`
+      );
+      assert.deepEqual(subscriber1Bis.initializedAt, blockChain1[2].block);
+    });
+
+    it("unsubscribe from logs", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const queriedAddresses: string[][] = [];
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: async (from, to, addressesAndTopics) => {
+          queriedAddresses.push(addressesAndTopics.map((addr) => addr.address));
+          return mockRpc.getLogs(from, to, addressesAndTopics);
+        },
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      const subscriber2 = new MockSubscriber(addressSubscriber2, blockChain1);
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const handle1 = await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+      const handle2 = await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      /* unsubscribe subscriber2 while block 2 is being handled */
+      const handleLog = subscriber1.handleLog.bind(subscriber1);
+      subscriber1.handleLog = async (log: Log) => {
+        blockManager.unsubscribeFromLogs(handle2);
+        return handleLog(log);
+      };
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[3].state[subscriber1.address]
+      );
+      assert.equal(
+        subscriber2.getLatestState(),
+        blockChain1[1].state[subscriber2.address]
+      );
+      assert.deepEqual(queriedAddresses[queriedAddresses.length - 1], [
+        addressSubscriber1,
+      ]);
+
+      assert.equal(blockManager.unsubscribeFromLogs(handle2), false);
+      assert.equal(blockManager.unsubscribeFromLogs(handle1), true);
+    });
+
     it("rollback subscriber to a block older than its initialization", async () => {
       const mockRpc = new MockRpc(blockChain1);
 
@@ -1172,4 +1488,2243 @@ describe("Block Manager", () => {
       );
     });
   });
+
+  describe("Block Manager with confirmed subscriber", () => {
+    it("deliver logs after confirmations", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        confirmationDepth: 1,
+      });
+
+      const subscriber1 = new MockConfirmedSubscriber(addressSubscriber1);
+
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.subscribeToConfirmedLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+
+      /* block 0 does not exist, subscriber is initialized once block 1 is confirmed */
+      assert.equal(subscriber1.initializedAt, undefined);
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      assert.equal(subscriber1.initializedAt!.number, 1);
+      assert.equal(subscriber1.logs.length, 0);
+
+      await blockManager.handleBlock(blockChain1[3].block);
+      assert.deepEqual(subscriber1.logs, blockChain1[2].logs);
+
+      await blockManager.handleBlock(blockChain1[4].block);
+      assert.deepEqual(subscriber1.logs, [
+        ...blockChain1[2].logs,
+        blockChain1[3].logs[0],
+      ]);
+    });
+
+    it("do not deliver reorged logs", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        confirmationDepth: 2,
+      });
+
+      const subscriber1 = new MockConfirmedSubscriber(addressSubscriber1);
+      const subscriber2 = new MockConfirmedSubscriber(addressSubscriber2);
+
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.subscribeToConfirmedLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+      await blockManager.subscribeToConfirmedLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      mockRpc.blockByNumber = blockChain2;
+
+      await blockManager.handleBlock(blockChain2[4].block);
+
+      assert.deepEqual(subscriber1.logs, []);
+      assert.deepEqual(subscriber2.logs, blockChain2[2].logs);
+    });
+  });
+
+  describe("Block Manager with block store", () => {
+    it("restore cached chain", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const blockStore = new InMemoryBlockStore();
+
+      const options = {
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        blockStore,
+      };
+
+      const blockManager = new BlockManager(options);
+      assert.equal(await blockManager.restore(), false);
+
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      const restoredBlockManager = new BlockManager(options);
+      assert.equal(await restoredBlockManager.restore(), true);
+      assert.deepEqual(restoredBlockManager.getLastBlock(), blockChain1[3].block);
+      assert.deepEqual(
+        await restoredBlockManager.getBlock(2),
+        blockChain1[2].block
+      );
+    });
+
+    it("restore a single cached block", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const blockStore = new InMemoryBlockStore();
+
+      const options = {
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        /* like ReliableProvider, no block is returned when from === to */
+        getBlocksBatch: async (from: number, to: number) =>
+          from === to
+            ? { error: undefined, ok: [] }
+            : mockRpc.getBlocksBatch(from, to),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        blockStore,
+      };
+
+      const blockManager = new BlockManager(options);
+      await blockManager.initialize(blockChain1[2].block);
+
+      const restoredBlockManager = new BlockManager(options);
+      assert.equal(await restoredBlockManager.restore(), true);
+      assert.deepEqual(restoredBlockManager.getLastBlock(), blockChain1[2].block);
+    });
+
+    it("initialize subscribers at head after restoring", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const blockStore = new InMemoryBlockStore();
+
+      const options = {
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        blockStore,
+      };
+
+      const blockManager = new BlockManager(options);
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.handleBlock(blockChain1[2].block);
+
+      const restoredBlockManager = new BlockManager(options);
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      await restoredBlockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+      assert.equal(await restoredBlockManager.restore(blockChain1[5].block), true);
+      assert.deepEqual(restoredBlockManager.getLastBlock(), blockChain1[5].block);
+      assert.equal(subscriber1.initializedAt!.number, 5);
+      assert.deepEqual(subscriber1.logs, []);
+    });
+
+    it("do not restore blocks older than the cache size", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const blockStore = new InMemoryBlockStore();
+      const queriedRanges: [number, number][] = [];
+
+      const options = {
+        maxBlockCached: 2,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.limitedRangeGetLogs(100, queriedRanges),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        blockStore,
+      };
+
+      const blockManager = new BlockManager(options);
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.handleBlock(blockChain1[2].block);
+
+      const restoredBlockManager = new BlockManager(options);
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      await restoredBlockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+      queriedRanges.length = 0;
+      assert.equal(await restoredBlockManager.restore(blockChain1[5].block), false);
+      assert.deepEqual(queriedRanges, []);
+    });
+
+    it("restore cached chain reorged while offline", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const blockStore = new InMemoryBlockStore();
+
+      const options = {
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        blockStore,
+      };
+
+      const blockManager = new BlockManager(options);
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      mockRpc.blockByNumber = blockChain2;
+
+      const restoredBlockManager = new BlockManager(options);
+      assert.equal(await restoredBlockManager.restore(), true);
+      assert.deepEqual(restoredBlockManager.getLastBlock(), blockChain1[1].block);
+
+      const { error, ok } = await restoredBlockManager.handleBlock(
+        blockChain2[4].block
+      );
+      assert.equal(error, undefined);
+      assert.equal(ok!.logs.length, 3);
+      assert.deepEqual(restoredBlockManager.getLastBlock(), blockChain2[4].block);
+    });
+  });
+
+  describe("Block Manager with checkpoint store", () => {
+    it("resume subscribers from checkpoints", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const checkpointStore = new InMemoryCheckpointStore();
+
+      const options = {
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        checkpointStore,
+      };
+
+      const blockManager = new BlockManager(options);
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      const subscriber2 = new MockExternalStateSubscriber(addressSubscriber2);
+
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2,
+        { checkpointKey: "subscriber2" }
+      );
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      assert.deepEqual((await checkpointStore.load("subscriber1"))!.block, {
+        number: 3,
+        hash: "0x3",
+      });
+
+      /* restart at block 2, simulate we stopped before handling block 3 */
+      await checkpointStore.save({
+        subscriber1: {
+          block: { number: 2, hash: "0x2" },
+          initializedAt: { number: 1, hash: "0x1" },
+          lastSeenEventBlock: { number: 2, hash: "0x2" },
+        },
+      });
+
+      const resumedBlockManager = new BlockManager(options);
+      const resumedSubscriber1 = new MockExternalStateSubscriber(
+        addressSubscriber1,
+        [...blockChain1[2].logs]
+      );
+      const resumedSubscriber2 = new MockExternalStateSubscriber(
+        addressSubscriber2,
+        [blockChain1[3].logs[1]]
+      );
+      await resumedBlockManager.subscribeToLogs(
+        resumedSubscriber1.getAddressAndTopics(),
+        resumedSubscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+      await resumedBlockManager.subscribeToLogs(
+        resumedSubscriber2.getAddressAndTopics(),
+        resumedSubscriber2,
+        { checkpointKey: "subscriber2" }
+      );
+
+      assert.equal(await resumedBlockManager.resume(blockChain1[5].block), true);
+      assert.deepEqual(resumedBlockManager.getLastBlock(), blockChain1[5].block);
+
+      assert.deepEqual(resumedSubscriber1.logs, [
+        ...blockChain1[2].logs,
+        blockChain1[3].logs[0],
+      ]);
+      assert.deepEqual(resumedSubscriber2.logs, [blockChain1[3].logs[1]]);
+      assert.deepEqual(resumedSubscriber2.initializedAt, { number: 2, hash: "0x2" });
+    });
+
+    it("do not resume checkpoint reorged while offline", async () => {
+      const mockRpc = new MockRpc(blockChain2);
+      const checkpointStore = new InMemoryCheckpointStore();
+      await checkpointStore.save({
+        subscriber1: {
+          block: { number: 2, hash: "0x2" },
+          initializedAt: { number: 1, hash: "0x1" },
+        },
+      });
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        checkpointStore,
+      });
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+
+      assert.equal(await blockManager.resume(blockChain2[4].block), false);
+    });
+  });
+
+  describe("Block Manager with backfill", () => {
+    it("backfill subscriber from block", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 2,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 2,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+      for (let i = 2; i <= 6; ++i) {
+        await blockManager.handleBlock(blockChain1[i].block);
+      }
+
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { fromBlock: 2 }
+      );
+
+      assert.deepEqual(subscriber1.initializedAt, blockChain1[1].block);
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[6].state[subscriber1.address]
+      );
+
+      await blockManager.handleBlock(blockChain1[7].block);
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[7].state[subscriber1.address]
+      );
+    });
+
+    it("backfill subscriber subscribed before initialize", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 2,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 2,
+      });
+
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { fromBlock: 2 }
+      );
+      const subscriber2 = new MockSubscriber(addressSubscriber2, blockChain1);
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.initialize(blockChain1[6].block);
+
+      assert.deepEqual(subscriber1.initializedAt, blockChain1[1].block);
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[6].state[subscriber1.address]
+      );
+      assert.deepEqual(subscriber2.initializedAt, blockChain1[6].block);
+
+      await blockManager.handleBlock(blockChain1[7].block);
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[7].state[subscriber1.address]
+      );
+    });
+
+    it("restart backfill when initialized again", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      let reinitialize = false;
+
+      const blockManager: BlockManager = new BlockManager({
+        maxBlockCached: 2,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: async (from: number, to: number) => {
+          if (reinitialize) {
+            /* the cache is initialized again while the first batch is queried */
+            reinitialize = false;
+            await blockManager.initialize(blockChain1[6].block);
+          }
+          return mockRpc.getBlocksBatch(from, to);
+        },
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 2,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+      for (let i = 2; i <= 6; ++i) {
+        await blockManager.handleBlock(blockChain1[i].block);
+      }
+
+      reinitialize = true;
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { fromBlock: 2 }
+      );
+
+      assert.deepEqual(subscriber1.initializedAt, blockChain1[1].block);
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[6].state[subscriber1.address]
+      );
+    });
+
+    it("backfill without the mutex only before the reorg window", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const batches: number[][] = [];
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 2,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: (from: number, to: number) => {
+          batches.push([from, to]);
+          return mockRpc.getBlocksBatch(from, to);
+        },
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 2,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+      for (let i = 2; i <= 6; ++i) {
+        await blockManager.handleBlock(blockChain1[i].block);
+      }
+      batches.length = 0;
+
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { fromBlock: 2 }
+      );
+
+      /* blocks 5 and 6 are in the reorg window, they are only delivered while holding the mutex */
+      assert.deepEqual(batches, [
+        [1, 3],
+        [3, 4],
+        [4, 6],
+      ]);
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[6].state[subscriber1.address]
+      );
+    });
+
+    it("backfill subscriber from its checkpoint", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const checkpointStore = new InMemoryCheckpointStore();
+      await checkpointStore.save({
+        subscriber1: {
+          block: { number: 2, hash: "0x2" },
+          initializedAt: { number: 1, hash: "0x1" },
+          lastSeenEventBlock: { number: 2, hash: "0x2" },
+        },
+      });
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        checkpointStore,
+      });
+
+      await blockManager.initialize(blockChain1[4].block);
+
+      const logEvents: Log[] = [];
+      blockManager.on("log", (log) => {
+        logEvents.push(log);
+      });
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1, [
+        ...blockChain1[2].logs,
+      ]);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+
+      assert.deepEqual(subscriber1.logs, [
+        ...blockChain1[2].logs,
+        blockChain1[3].logs[0],
+      ]);
+      assert.deepEqual(logEvents, [blockChain1[3].logs[0]]);
+    });
+  });
+
+  describe("Block Manager with getLogs range limit", () => {
+    it("bisect getLogs range and remember max span", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const queriedRanges: [number, number][] = [];
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.limitedRangeGetLogs(2, queriedRanges),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+
+      /* catch up 5 blocks at once: [2, 6] => [2, 4] => [2, 3], [4, 4] => [5, 6] */
+      const { error } = await blockManager.handleBlock(blockChain1[6].block);
+      assert.equal(error, undefined);
+      assert.deepEqual(queriedRanges, [
+        [2, 6],
+        [2, 4],
+        [2, 3],
+        [4, 4],
+        [5, 6],
+      ]);
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[6].state[subscriber1.address]
+      );
+
+      /* span of 2 is remembered, no more failing call */
+      queriedRanges.length = 0;
+      await blockManager.handleBlock(blockChain1[7].block);
+      assert.deepEqual(queriedRanges, [[7, 7]]);
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[7].state[subscriber1.address]
+      );
+    });
+
+    it("reject maxLogsBlockSpan below 1", () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      assert.throws(
+        () =>
+          new BlockManager({
+            maxBlockCached: 50,
+            getBlock: mockRpc.getBlock.bind(mockRpc),
+            getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+            getLogs: mockRpc.getLogs.bind(mockRpc),
+            maxRetryGetBlock: 5,
+            retryDelayGetBlockMs: 200,
+            maxRetryGetLogs: 5,
+            retryDelayGetLogsMs: 200,
+            batchSize: 100,
+            maxLogsBlockSpan: 0,
+          }),
+        /maxLogsBlockSpan must be at least 1/
+      );
+    });
+  });
+
+  describe("Block Manager events", () => {
+    it("emit block and reorg events", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      const blockEvents: BlockManager.BlockEvent[] = [];
+      const reorgEvents: BlockManager.ReorgEvent[] = [];
+      blockManager.on("block", (event) => {
+        blockEvents.push(event);
+      });
+      blockManager.on("reorg", (event) => {
+        reorgEvents.push(event);
+      });
+      blockManager.on("block", () => {
+        throw new Error("failing listener");
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      mockRpc.blockByNumber = blockChain2;
+      await blockManager.handleBlock(blockChain2[2].block);
+
+      assert.deepEqual(
+        blockEvents.map((event) => event.block),
+        [blockChain1[2].block, blockChain1[3].block, blockChain2[2].block]
+      );
+      assert.equal(blockEvents[0].logs.length, 2);
+      assert.deepEqual(blockEvents[2].rollback, blockChain2[1].block);
+
+      assert.deepEqual(reorgEvents, [
+        {
+          ancestor: blockChain1[1].block,
+          depth: 2,
+          orphanedHashes: ["0x2", "0x3"],
+        },
+      ]);
+    });
+
+    it("emit error and subscriberInitFailed events", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.failingBeforeXCallGetLogs(100).bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 10,
+        maxRetryGetLogs: 1,
+        retryDelayGetLogsMs: 10,
+        batchSize: 100,
+      });
+
+      const errorEvents: BlockManager.ErrorEvent[] = [];
+      const initFailedEvents: BlockManager.SubscriberInitFailedEvent[] = [];
+      blockManager.on("error", (event) => {
+        errorEvents.push(event);
+      });
+      blockManager.on("subscriberInitFailed", (event) => {
+        initFailedEvents.push(event);
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber1 = new MockSubscriber(addressSubscriber1, {});
+      const handle = await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[2].block);
+
+      assert.deepEqual(
+        errorEvents.map((event) => event.failures),
+        [1, 2]
+      );
+      assert.equal(errorEvents[0].error, "MaxRetryReach");
+      assert.ok(initFailedEvents.length > 0);
+      assert.equal(initFailedEvents[0].handle, handle);
+      assert.equal(initFailedEvents[0].error, "FailedInitialize");
+    });
+
+    it("emit log events for delivered logs and error when handleBlock throws", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      const logEvents: Log[] = [];
+      const errorEvents: BlockManager.ErrorEvent[] = [];
+      blockManager.on("log", (log) => {
+        logEvents.push(log);
+      });
+      blockManager.on("error", (event) => {
+        errorEvents.push(event);
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      /* subscriber1 skips its first log, subscriber2 stops on its first log */
+      const subscriber1 = new MockFailingSubscriber(addressSubscriber1, 1);
+      const subscriber2 = new MockFailingSubscriber(addressSubscriber2, 1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { failurePolicy: { action: "skip" } }
+      );
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      assert.deepEqual(logEvents, [blockChain1[2].logs[1]]);
+
+      await assert.rejects(
+        blockManager.handleBlock(blockChain1[3].block),
+        /failing handleLog/
+      );
+      assert.deepEqual(errorEvents, [
+        { block: blockChain1[3].block, error: "failing handleLog", failures: 1 },
+      ]);
+    });
+  });
+
+  describe("Block Manager with removed logs", () => {
+    it("deliver removed logs newest first on reorg", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+      assert.equal(subscriber1.logs.length, 3);
+
+      mockRpc.blockByNumber = blockChain2;
+      await blockManager.handleBlock(blockChain2[2].block);
+
+      assert.deepEqual(subscriber1.removedLogs, [
+        { ...blockChain1[3].logs[0], removed: true },
+        { ...blockChain1[2].logs[1], removed: true },
+        { ...blockChain1[2].logs[0], removed: true },
+      ]);
+      assert.deepEqual(subscriber1.logs, []);
+
+      /* removed logs are only delivered once */
+      await blockManager.handleBlock(blockChain2[3].block);
+      assert.equal(subscriber1.removedLogs.length, 3);
+    });
+
+    it("complete the rollback when handleRemovedLog fails", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const deadLetters: BlockManager.DeadLetter[] = [];
+      blockManager.on("deadLetter", (deadLetter) => {
+        deadLetters.push(deadLetter);
+      });
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      subscriber1.handleRemovedLog = async () => {
+        throw new Error("failing handleRemovedLog");
+      };
+      const subscriber2 = new MockExternalStateSubscriber(addressSubscriber2);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      mockRpc.blockByNumber = blockChain2;
+      await assert.rejects(
+        blockManager.handleBlock(blockChain2[2].block),
+        /failing handleRemovedLog/
+      );
+
+      /* subscriber1 stopped receiving removed logs after its failure, others were rolled back */
+      assert.equal(deadLetters.length, 1);
+      assert.equal(deadLetters[0].callback, "handleRemovedLog");
+      assert.deepEqual(deadLetters[0].log, {
+        ...blockChain1[3].logs[0],
+        removed: true,
+      });
+      assert.deepEqual(subscriber2.removedLogs, [
+        { ...blockChain1[3].logs[1], removed: true },
+      ]);
+      assert.deepEqual(subscriber1.logs, []);
+      assert.deepEqual(subscriber2.logs, []);
+    });
+  });
+
+  describe("Block Manager with deep reorg", () => {
+    /* blockChain1 forked after block 2 */
+    const forkedChain: Record<number, BlockLogsState> = {
+      1: blockChain1[1],
+      2: blockChain1[2],
+    };
+    for (let i = 3; i <= 6; ++i) {
+      const hash = `0x${i}d`;
+      forkedChain[i] = {
+        block: {
+          parentHash: i === 3 ? "0x2" : `0x${i - 1}d`,
+          hash,
+          number: i,
+        },
+        logs: [generateMockLog(i, hash, addressSubscriber1)],
+        state: {},
+      };
+    }
+
+    it("find common ancestor older than the cache", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 2,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 10,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 10,
+        batchSize: 100,
+        maxReorgDepth: 10,
+      });
+
+      const reorgEvents: BlockManager.ReorgEvent[] = [];
+      blockManager.on("reorg", (event) => {
+        reorgEvents.push(event);
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+
+      for (let i = 2; i <= 6; ++i) {
+        await blockManager.handleBlock(blockChain1[i].block);
+      }
+
+      mockRpc.blockByNumber = forkedChain;
+      const { error, ok } = await blockManager.handleBlock(
+        forkedChain[6].block
+      );
+
+      assert.equal(error, undefined);
+      assert.deepEqual(ok!.rollback, forkedChain[2].block);
+      assert.equal(ok!.logs.length, 4);
+      assert.deepEqual(reorgEvents, [
+        {
+          ancestor: forkedChain[2].block,
+          depth: 4,
+          orphanedHashes: ["0x3", "0x4", "0x5", "0x6"],
+        },
+      ]);
+      assert.equal(
+        subscriber1.getLatestState(),
+        `${blockChain1[2].state[addressSubscriber1]}-0x3d-0x4d-0x5d-0x6d`
+      );
+      assert.deepEqual(
+        await blockManager.getBlock(6),
+        forkedChain[6].block
+      );
+    });
+
+    it("re-initialize when reorg is deeper than maxReorgDepth", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 2,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 10,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 10,
+        batchSize: 100,
+        maxReorgDepth: 3,
+      });
+
+      const reinitializeEvents: BlockManager.ReinitializeEvent[] = [];
+      blockManager.on("reinitialize", (event) => {
+        reinitializeEvents.push(event);
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+      for (let i = 2; i <= 6; ++i) {
+        await blockManager.handleBlock(blockChain1[i].block);
+      }
+
+      mockRpc.blockByNumber = forkedChain;
+      const { error, ok } = await blockManager.handleBlock(
+        forkedChain[6].block
+      );
+
+      assert.equal(error, undefined);
+      assert.deepEqual(ok!.rollback, forkedChain[6].block);
+      assert.deepEqual(reinitializeEvents, [
+        {
+          block: forkedChain[6].block,
+          reason: "NoCommonAncestorFoundInCache",
+        },
+      ]);
+    });
+  });
+
+  describe("Block Manager with block header fields", () => {
+    it("keep header fields in cache", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const block2 = {
+        ...blockChain1[2].block,
+        timestamp: 1000,
+        baseFeePerGas: "0x07",
+        gasUsed: "0x5208",
+      };
+      await blockManager.handleBlock(block2);
+      assert.deepEqual(await blockManager.getBlock(2), block2);
+
+      /* batch: header fields of the last block come from the new block */
+      const block4 = { ...blockChain1[4].block, timestamp: 1024 };
+      await blockManager.handleBlock(block4);
+      assert.deepEqual(await blockManager.getBlock(3), blockChain1[3].block);
+      assert.deepEqual(await blockManager.getBlock(4), block4);
+    });
+  });
+
+  describe("Block Manager handle log context", () => {
+    it("give live, catch up and replayed context", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber2 = new MockExternalStateSubscriber(addressSubscriber2);
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[4].block); // batch from 3 to 4
+
+      mockRpc.blockByNumber = blockChain2;
+      await blockManager.handleBlock(blockChain2[3].block); // reorg to 1
+      await blockManager.handleBlock(blockChain2[4].block);
+
+      assert.deepEqual(subscriber2.contexts, [
+        {
+          block: blockChain1[3].block,
+          head: 4,
+          confirmations: 1,
+          replayed: false,
+          catchUp: true,
+        },
+        {
+          block: blockChain2[2].block,
+          head: 3,
+          confirmations: 1,
+          replayed: true,
+          catchUp: false,
+        },
+        {
+          block: blockChain2[3].block,
+          head: 3,
+          confirmations: 0,
+          replayed: true,
+          catchUp: false,
+        },
+        {
+          block: blockChain2[4].block,
+          head: 4,
+          confirmations: 0,
+          replayed: false,
+          catchUp: false,
+        },
+      ]);
+    });
+  });
+
+  describe("Block Manager with enriched logs", () => {
+    it("fetch transactions once per block and refetch after reorg", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const requestedHashes: string[][] = [];
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        getTransactionsAndReceipts: async (hashes: string[]) => {
+          requestedHashes.push(hashes);
+          const transactions: Record<
+            string,
+            BlockManager.TransactionAndReceipt
+          > = {};
+          for (const hash of hashes) {
+            transactions[hash] = {
+              transaction: { hash } as any,
+              receipt: { transactionHash: hash } as any,
+            };
+          }
+          return { error: undefined, ok: transactions };
+        },
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      const subscriber2 = new MockExternalStateSubscriber(addressSubscriber2);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { enrich: true }
+      );
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2,
+        { enrich: true }
+      );
+      const subscriber3 = new MockExternalStateSubscriber(addressSubscriber1);
+      await blockManager.subscribeToLogs(
+        subscriber3.getAddressAndTopics(),
+        subscriber3
+      );
+
+      /* block 2 and 3 have 2 logs of the same transaction */
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+      assert.deepEqual(requestedHashes, [[""], [""]]);
+      const log: BlockManager.EnrichedLog = subscriber1.logs[0];
+      assert.deepEqual(log.transaction, { hash: "" });
+      assert.deepEqual(log.receipt, { transactionHash: "" });
+      /* logs are shared, only copies delivered to enriched subscriptions are enriched */
+      const plainLog: BlockManager.EnrichedLog = subscriber3.logs[0];
+      assert.equal(plainLog.transaction, undefined);
+      assert.equal(plainLog.receipt, undefined);
+
+      mockRpc.blockByNumber = blockChain2;
+      await blockManager.handleBlock(blockChain2[3].block);
+      assert.equal(requestedHashes.length, 4); // block 2 and 3 of the new chain
+      assert.deepEqual(
+        subscriber2.logs.map((log: BlockManager.EnrichedLog) => log.receipt),
+        [{ transactionHash: "" }, { transactionHash: "" }]
+      );
+    });
+
+    it("require getTransactionsAndReceipts to enrich", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      await assert.rejects(
+        blockManager.subscribeToLogs(
+          subscriber1.getAddressAndTopics(),
+          subscriber1,
+          { enrich: true }
+        )
+      );
+    });
+  });
+
+  describe("Block Manager with failure policies", () => {
+    const createBlockManager = async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+      await blockManager.initialize(blockChain1[1].block);
+      return blockManager;
+    };
+
+    it("skip failed logs and send them to dead letter", async () => {
+      const blockManager = await createBlockManager();
+
+      const deadLetters: BlockManager.DeadLetter[] = [];
+      const subscriber1 = new MockFailingSubscriber(addressSubscriber1, 1);
+      const subscriber2 = new MockExternalStateSubscriber(addressSubscriber2);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        {
+          failurePolicy: {
+            action: "skip",
+            deadLetter: async (deadLetter) => {
+              deadLetters.push(deadLetter);
+            },
+          },
+        }
+      );
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      const { error } = await blockManager.handleBlock(blockChain1[3].block);
+
+      assert.equal(error, undefined);
+      assert.equal(deadLetters.length, 1);
+      assert.equal(deadLetters[0].log, blockChain1[2].logs[0]);
+      assert.equal(deadLetters[0].action, "skip");
+      assert.deepEqual(subscriber1.logs, [
+        blockChain1[2].logs[1],
+        blockChain1[3].logs[0],
+      ]);
+      assert.deepEqual(subscriber2.logs, [blockChain1[3].logs[1]]);
+    });
+
+    it("apply the failure policy to block hooks", async () => {
+      const blockManager = await createBlockManager();
+
+      const deadLetters: BlockManager.DeadLetter[] = [];
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      subscriber1.onBlockEnd = async () => {
+        throw new Error("failing onBlockEnd");
+      };
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        {
+          failurePolicy: {
+            action: "skip",
+            deadLetter: async (deadLetter) => {
+              deadLetters.push(deadLetter);
+            },
+          },
+        }
+      );
+
+      const { error } = await blockManager.handleBlock(blockChain1[2].block);
+
+      assert.equal(error, undefined);
+      assert.equal(deadLetters.length, 1);
+      assert.equal(deadLetters[0].callback, "onBlockEnd");
+      assert.deepEqual(deadLetters[0].block, { number: 2, hash: "0x2" });
+      assert.equal(deadLetters[0].log, undefined);
+      assert.deepEqual(subscriber1.logs, blockChain1[2].logs);
+    });
+
+    it("retry failed logs", async () => {
+      const blockManager = await createBlockManager();
+
+      const subscriber1 = new MockFailingSubscriber(addressSubscriber1, 2);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { failurePolicy: { action: "stop", maxRetries: 2, retryDelayMs: 1 } }
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      assert.deepEqual(subscriber1.logs, blockChain1[2].logs);
+    });
+
+    it("quarantine and re-initialize failing subscriber", async () => {
+      const blockManager = await createBlockManager();
+
+      const subscriber1 = new MockFailingSubscriber(addressSubscriber1, 1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { failurePolicy: { action: "quarantine" } }
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      assert.deepEqual(subscriber1.initializedAt, blockChain1[2].block);
+      assert.deepEqual(subscriber1.logs, []);
+
+      await blockManager.handleBlock(blockChain1[3].block);
+      assert.deepEqual(subscriber1.logs, [blockChain1[3].logs[0]]);
+    });
+
+    it("stop rejects handleBlock", async () => {
+      const blockManager = await createBlockManager();
+
+      const subscriber1 = new MockFailingSubscriber(addressSubscriber1, 1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+
+      await assert.rejects(blockManager.handleBlock(blockChain1[2].block));
+    });
+  });
+
+  describe("Block Manager with parallel dispatch", () => {
+    it("dispatch logs to subscribers concurrently", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        parallelDispatch: true,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      /* in block 3, subscriber1 waits for subscriber2 to handle its next log, it would never resolve sequentially */
+      let releaseSubscriber1: () => void = () => {};
+      const subscriber2Done = new Promise<void>((resolve) => {
+        releaseSubscriber1 = resolve;
+      });
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      const handleLog1 = subscriber1.handleLog.bind(subscriber1);
+      subscriber1.handleLog = async (log, event, ctx) => {
+        if (log.blockNumber === 3) {
+          await subscriber2Done;
+        }
+        return handleLog1(log, event, ctx);
+      };
+      const subscriber2 = new MockExternalStateSubscriber(addressSubscriber2);
+      const handleLog2 = subscriber2.handleLog.bind(subscriber2);
+      subscriber2.handleLog = async (log, event, ctx) => {
+        await handleLog2(log, event, ctx);
+        releaseSubscriber1();
+      };
+
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      assert.deepEqual(subscriber1.logs, [
+        ...blockChain1[2].logs,
+        blockChain1[3].logs[0],
+      ]);
+      assert.deepEqual(subscriber2.logs, [blockChain1[3].logs[1]]);
+    });
+  });
+
+  describe("Block Manager with subscriber dependencies", () => {
+    it("apply dependencies first and roll them back last", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const calls: string[] = [];
+      const track = (name: string, subscriber: MockExternalStateSubscriber) => {
+        const handleLog = subscriber.handleLog.bind(subscriber);
+        subscriber.handleLog = async (log, event, ctx) => {
+          calls.push(`${name} handleLog ${log.blockNumber}`);
+          return handleLog(log, event, ctx);
+        };
+        const rollback = subscriber.rollback.bind(subscriber);
+        subscriber.rollback = (block) => {
+          calls.push(`${name} rollback`);
+          return rollback(block);
+        };
+      };
+
+      /* subscriber1 reads subscriber2 even if its logs come first in block 3 */
+      const subscriber2 = new MockExternalStateSubscriber(addressSubscriber2);
+      track("subscriber2", subscriber2);
+      const handle2 = await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      track("subscriber1", subscriber1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { dependsOn: [handle2] }
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      mockRpc.blockByNumber = blockChain2;
+      await blockManager.handleBlock(blockChain2[2].block);
+
+      assert.deepEqual(calls, [
+        "subscriber1 handleLog 2",
+        "subscriber1 handleLog 2",
+        "subscriber2 handleLog 3",
+        "subscriber1 handleLog 3",
+        "subscriber1 rollback",
+        "subscriber2 rollback",
+        "subscriber2 handleLog 2",
+      ]);
+      assert.deepEqual(subscriber1.removedLogs, [
+        { ...blockChain1[3].logs[0], removed: true },
+        { ...blockChain1[2].logs[1], removed: true },
+        { ...blockChain1[2].logs[0], removed: true },
+      ]);
+      assert.deepEqual(subscriber2.removedLogs, [
+        { ...blockChain1[3].logs[1], removed: true },
+      ]);
+    });
+
+    it("reject unknown dependencies", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      await assert.rejects(
+        blockManager.subscribeToLogs(
+          subscriber1.getAddressAndTopics(),
+          subscriber1,
+          { dependsOn: [42] }
+        ),
+        /unknown dependency handle 42/
+      );
+    });
+  });
+
+  describe("Block Manager with block hooks", () => {
+    const trackBlockHooks = (subscriber: MockExternalStateSubscriber) => {
+      const calls: string[] = [];
+      const handleLog = subscriber.handleLog.bind(subscriber);
+      subscriber.handleLog = async (log, event, ctx) => {
+        calls.push(`handleLog ${log.blockNumber}`);
+        return handleLog(log, event, ctx);
+      };
+      subscriber.onBlockStart = async (block) => {
+        calls.push(`onBlockStart ${block.number}`);
+      };
+      subscriber.onBlockEnd = async (block) => {
+        calls.push(`onBlockEnd ${block.number}`);
+      };
+      return calls;
+    };
+
+    it("call block hooks around logs of each block", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      const calls1 = trackBlockHooks(subscriber1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+      const subscriber2 = new MockExternalStateSubscriber(addressSubscriber2);
+      const calls2 = trackBlockHooks(subscriber2);
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      assert.deepEqual(calls1, [
+        "onBlockStart 2",
+        "handleLog 2",
+        "handleLog 2",
+        "onBlockEnd 2",
+        "onBlockStart 3",
+        "handleLog 3",
+        "onBlockEnd 3",
+      ]);
+      /* subscriber2 has no log in block 2 */
+      assert.deepEqual(calls2, [
+        "onBlockStart 3",
+        "handleLog 3",
+        "onBlockEnd 3",
+      ]);
+    });
+
+    it("call block hooks for empty blocks when asked", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber2 = new MockExternalStateSubscriber(addressSubscriber2);
+      const calls = trackBlockHooks(subscriber2);
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2,
+        { emptyBlocks: true }
+      );
+
+      /* catch up blocks 2 and 3 in one batch */
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      assert.deepEqual(calls, [
+        "onBlockStart 2",
+        "onBlockEnd 2",
+        "onBlockStart 3",
+        "handleLog 3",
+        "onBlockEnd 3",
+      ]);
+    });
+  });
+
+  describe("Block Manager with transactional sink", () => {
+    it("commit every subscriber of a block together or none", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const sink = new InMemoryTransactionalSink<number>();
+      const blockStore = new InMemoryBlockStore();
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        checkpointStore: new InMemoryCheckpointStore(),
+        blockStore,
+        transactionalSink: sink,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const countLogs = (subscriber: MockExternalStateSubscriber) => {
+        const handleLog = subscriber.handleLog.bind(subscriber);
+        subscriber.handleLog = async (log, event, ctx) => {
+          await handleLog(log, event, ctx);
+          sink.set(subscriber.address, (sink.get(subscriber.address) || 0) + 1);
+        };
+      };
+
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      countLogs(subscriber1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+      /* subscriber2 fails on its log of block 3, after subscriber1 handled its own */
+      const subscriber2 = new MockFailingSubscriber(addressSubscriber2, 1);
+      countLogs(subscriber2);
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2,
+        { checkpointKey: "subscriber2" }
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      assert.equal(sink.getCommitted(addressSubscriber1), 2);
+      assert.equal((await sink.loadCheckpoint("subscriber1"))!.block.number, 2);
+      assert.equal((await sink.loadCheckpoint("subscriber2"))!.block.number, 2);
+
+      await assert.rejects(
+        blockManager.handleBlock(blockChain1[3].block),
+        /failing handleLog/
+      );
+      assert.equal(sink.getCommitted(addressSubscriber1), 2);
+      assert.equal(sink.getCommitted(addressSubscriber2), undefined);
+      assert.equal((await sink.loadCheckpoint("subscriber1"))!.block.number, 2);
+      assert.equal((await sink.loadCheckpoint("subscriber2"))!.block.number, 2);
+      /* the aborted block is not persisted */
+      assert.deepEqual(
+        (await blockStore.load()).map((block) => block.number),
+        [1, 2]
+      );
+    });
+
+    it("resume subscribers from checkpoints committed to the sink", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const sink = new InMemoryTransactionalSink<number>();
+
+      const options = {
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        transactionalSink: sink,
+      };
+
+      const blockManager = new BlockManager(options);
+      const subscriber1 = new MockExternalStateSubscriber(addressSubscriber1);
+      const subscriber2 = new MockExternalStateSubscriber(addressSubscriber2);
+
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2,
+        { checkpointKey: "subscriber2" }
+      );
+      /* stop after block 2 was committed */
+      await blockManager.handleBlock(blockChain1[2].block);
+
+      const resumedBlockManager = new BlockManager(options);
+      const resumedSubscriber1 = new MockExternalStateSubscriber(
+        addressSubscriber1,
+        [...blockChain1[2].logs]
+      );
+      const resumedSubscriber2 = new MockExternalStateSubscriber(
+        addressSubscriber2
+      );
+      await resumedBlockManager.subscribeToLogs(
+        resumedSubscriber1.getAddressAndTopics(),
+        resumedSubscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+      await resumedBlockManager.subscribeToLogs(
+        resumedSubscriber2.getAddressAndTopics(),
+        resumedSubscriber2,
+        { checkpointKey: "subscriber2" }
+      );
+
+      assert.equal(await resumedBlockManager.resume(blockChain1[5].block), true);
+      assert.deepEqual(resumedBlockManager.getLastBlock(), blockChain1[5].block);
+
+      assert.deepEqual(resumedSubscriber1.logs, [
+        ...blockChain1[2].logs,
+        blockChain1[3].logs[0],
+      ]);
+      assert.deepEqual(resumedSubscriber2.logs, [blockChain1[3].logs[1]]);
+      assert.equal((await sink.loadCheckpoint("subscriber1"))!.block.number, 5);
+      assert.equal((await sink.loadCheckpoint("subscriber2"))!.block.number, 5);
+    });
+  });
+
+  describe("Block Manager with state pruning", () => {
+    it("prune states past the reorg window", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 2,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+
+      for (let i = 2; i <= 4; ++i) {
+        await blockManager.handleBlock(blockChain1[i].block);
+      }
+      /* block 2 can still be rolled back to, state of block 1 is not needed anymore */
+      assert.deepEqual(subscriber1.getStateMetrics(), {
+        cachedStates: 2,
+        prunedStates: 1,
+        oldestCachedBlockNumber: 2,
+      });
+
+      for (let i = 5; i <= 7; ++i) {
+        await blockManager.handleBlock(blockChain1[i].block);
+      }
+      /* state of block 3 is the latest one, it's always kept */
+      assert.deepEqual(subscriber1.getStateMetrics(), {
+        cachedStates: 1,
+        prunedStates: 2,
+        oldestCachedBlockNumber: 3,
+      });
+      assert.equal(
+        subscriber1.getLatestState(),
+        blockChain1[7].state[addressSubscriber1]
+      );
+      assert.equal(subscriber1.getStateAt(2).error, "StatePruned");
+      assert.equal(
+        subscriber1.getStateAtHash(blockChain1[2].block.hash).error,
+        "StatePruned"
+      );
+      /* no log for subscriber1 in block 6, its hash is known anyway */
+      assert.equal(
+        subscriber1.getStateAtHash(blockChain1[6].block.hash).ok,
+        blockChain1[6].state[addressSubscriber1]
+      );
+    });
+
+    it("query states at a block", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber2 = new MockSubscriber(addressSubscriber2, blockChain1);
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      /* no log for subscriber2 in block 2, it shares the state of block 1 */
+      assert.equal(
+        subscriber2.getStateAt(2).ok,
+        blockChain1[2].state[addressSubscriber2]
+      );
+      assert.equal(
+        subscriber2.getStateAtHash(blockChain1[2].block.hash).ok,
+        blockChain1[2].state[addressSubscriber2]
+      );
+      assert.equal(
+        subscriber2.getStateAtHash(blockChain1[3].block.hash).ok,
+        blockChain1[3].state[addressSubscriber2]
+      );
+      assert.equal(subscriber2.getStateAt(0).error, "BlockNotHandled");
+
+      mockRpc.blockByNumber = blockChain2;
+      await blockManager.handleBlock(blockChain2[2].block);
+
+      assert.equal(
+        subscriber2.getStateAtHash(blockChain1[3].block.hash).error,
+        "BlockNotCanonical"
+      );
+      assert.equal(
+        subscriber2.getStateAtHash(blockChain2[2].block.hash).ok,
+        blockChain2[2].state[addressSubscriber2]
+      );
+      assert.equal(
+        subscriber2.getStateAtHash(blockChain1[2].block.hash).error,
+        "BlockNotCanonical"
+      );
+      assert.equal(subscriber2.getStateAtHash("0x42").error, "UnknownBlockHash");
+    });
+  });
+
+  describe("Block Manager with journaled subscriber", () => {
+    it("rollback journaled state on reorg", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber1 = new MockJournaledSubscriber(
+        addressSubscriber1,
+        blockChain1
+      );
+      const subscriber2 = new MockJournaledSubscriber(
+        addressSubscriber2,
+        blockChain1
+      );
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      assert.equal(
+        subscriber1.getLatestState().value,
+        blockChain1[3].state[addressSubscriber1]
+      );
+      assert.deepEqual(subscriber1.getJournalMetrics(), {
+        journaledBlocks: 2,
+        journaledOperations: 3,
+        prunedBlocks: 0,
+      });
+
+      mockRpc.blockByNumber = blockChain2;
+      await blockManager.handleBlock(blockChain2[2].block);
+
+      assert.equal(
+        subscriber1.getLatestState().value,
+        blockChain2[2].state[addressSubscriber1]
+      );
+      assert.equal(
+        subscriber2.getLatestState().value,
+        blockChain2[2].state[addressSubscriber2]
+      );
+      assert.equal(subscriber1.getJournalMetrics().journaledOperations, 0);
+    });
+
+    it("initialize again instead of resuming from a checkpoint", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const checkpointStore = new InMemoryCheckpointStore();
+      await checkpointStore.save({
+        subscriber1: {
+          block: { number: 2, hash: "0x2" },
+          initializedAt: { number: 1, hash: "0x1" },
+          lastSeenEventBlock: { number: 2, hash: "0x2" },
+        },
+      });
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        checkpointStore,
+      });
+
+      const subscriber1 = new MockJournaledSubscriber(
+        addressSubscriber1,
+        blockChain1
+      );
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+
+      /* nothing could be resumed, it's initialized as usual */
+      assert.equal(await blockManager.resume(blockChain1[3].block), false);
+      await blockManager.initialize(blockChain1[3].block);
+      assert.deepEqual(subscriber1.initializedAt, blockChain1[3].block);
+      assert.equal(
+        subscriber1.getLatestState().value,
+        blockChain1[3].state[addressSubscriber1]
+      );
+    });
+  });
+
+  describe("Block Manager with state diffs", () => {
+    it("compare states structurally", async () => {
+      class MockBalancesSubscriber extends StateLogSubScriber<
+        Record<string, { balance: number }>,
+        any
+      > {
+        copy(state: Record<string, { balance: number }>) {
+          return JSON.parse(JSON.stringify(state));
+        }
+
+        async stateInitialize(): Promise<LogSubscriber.ErrorOrState<any>> {
+          return { error: undefined, ok: {} };
+        }
+
+        stateHandleLog(state: Record<string, { balance: number }>) {
+          return state;
+        }
+
+        diff(
+          previous: Record<string, { balance: number }>,
+          next: Record<string, { balance: number }>
+        ) {
+          return this.diffStates(previous, next);
+        }
+      }
+
+      const subscriber = new MockBalancesSubscriber();
+      const previous = { alice: { balance: 1 }, bob: { balance: 2 } };
+      const next = subscriber.copy(previous);
+      next.bob.balance = 3;
+
+      /* alice is a copy with the same balance, it didn't change */
+      assert.deepEqual(subscriber.diff(previous, next), [
+        { key: "bob", previous: { balance: 2 }, next: { balance: 3 } },
+      ]);
+    });
+
+    it("notify applied and reverted state diffs", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+
+      await blockManager.initialize(blockChain1[1].block);
+
+      const subscriber2 = new MockSubscriber(addressSubscriber2, blockChain1);
+      const diffs: StateLogSubScriber.StateDiff[] = [];
+      subscriber2.onStateDiff((diff) => diffs.push(diff));
+      await blockManager.subscribeToLogs(
+        subscriber2.getAddressAndTopics(),
+        subscriber2
+      );
+
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      mockRpc.blockByNumber = blockChain2;
+      await blockManager.handleBlock(blockChain2[2].block);
+
+      assert.deepEqual(diffs, [
+        {
+          block: { number: 3, hash: blockChain1[3].block.hash },
+          reverted: false,
+          changes: [
+            {
+              key: "",
+              previous: blockChain1[2].state[addressSubscriber2],
+              next: blockChain1[3].state[addressSubscriber2],
+            },
+          ],
+        },
+        {
+          block: { number: 3, hash: blockChain1[3].block.hash },
+          reverted: true,
+          changes: [
+            {
+              key: "",
+              previous: blockChain1[3].state[addressSubscriber2],
+              next: blockChain1[2].state[addressSubscriber2],
+            },
+          ],
+        },
+        {
+          block: { number: 2, hash: blockChain2[2].block.hash },
+          reverted: false,
+          changes: [
+            {
+              key: "",
+              previous: blockChain2[1].state[addressSubscriber2],
+              next: blockChain2[2].state[addressSubscriber2],
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe("Block Manager with state snapshots", () => {
+    it("restore subscriber from its snapshot", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const checkpointStore = new InMemoryCheckpointStore();
+      const snapshotStore = new InMemorySnapshotStore();
+
+      const options = {
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        checkpointStore,
+      };
+
+      const blockManager = new BlockManager(options);
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      subscriber1.enableSnapshots(snapshotStore, "subscriber1");
+
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+      await blockManager.handleBlock(blockChain1[2].block);
+
+      assert.deepEqual(await snapshotStore.load("subscriber1"), {
+        block: { number: 2, hash: "0x2" },
+        data: JSON.stringify(blockChain1[2].state[addressSubscriber1]),
+      });
+
+      /* stateInitialize has no data after block 1, it can only be restored from the snapshot */
+      const resumedBlockManager = new BlockManager(options);
+      const resumedSubscriber1 = new MockSubscriber(addressSubscriber1, {
+        1: blockChain1[1],
+      });
+      resumedSubscriber1.enableSnapshots(snapshotStore, "subscriber1");
+      await resumedBlockManager.subscribeToLogs(
+        resumedSubscriber1.getAddressAndTopics(),
+        resumedSubscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+
+      assert.equal(await resumedBlockManager.resume(blockChain1[3].block), true);
+      assert.equal(
+        resumedSubscriber1.getLatestState(),
+        blockChain1[3].state[addressSubscriber1]
+      );
+    });
+
+    it("restore subscriber from a snapshot older than its checkpoint", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const checkpointStore = new InMemoryCheckpointStore();
+      const snapshotStore = new InMemorySnapshotStore();
+
+      const options = {
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        checkpointStore,
+      };
+
+      const blockManager = new BlockManager(options);
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      subscriber1.enableSnapshots(snapshotStore, "subscriber1", 10);
+
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      /* stopped without saving a snapshot, it's still the one saved at initialization */
+      assert.deepEqual((await snapshotStore.load("subscriber1"))!.block, {
+        number: 1,
+        hash: "0x1",
+      });
+      assert.deepEqual((await checkpointStore.load("subscriber1"))!.block, {
+        number: 3,
+        hash: "0x3",
+      });
+
+      const resumedBlockManager = new BlockManager(options);
+      const resumedSubscriber1 = new MockSubscriber(addressSubscriber1, {});
+      resumedSubscriber1.enableSnapshots(snapshotStore, "subscriber1", 10);
+      await resumedBlockManager.subscribeToLogs(
+        resumedSubscriber1.getAddressAndTopics(),
+        resumedSubscriber1,
+        { checkpointKey: "subscriber1" }
+      );
+
+      /* logs of blocks 2 and 3 are delivered again on top of the snapshot */
+      assert.equal(await resumedBlockManager.resume(blockChain1[4].block), true);
+      assert.deepEqual(resumedSubscriber1.initializedAt, {
+        number: 1,
+        hash: "0x1",
+      });
+      assert.equal(
+        resumedSubscriber1.getLatestState(),
+        blockChain1[4].state[addressSubscriber1]
+      );
+    });
+
+    it("save snapshots once every interval", async () => {
+      const mockRpc = new MockRpc(blockChain1);
+      const snapshotStore = new InMemorySnapshotStore();
+
+      const blockManager = new BlockManager({
+        maxBlockCached: 50,
+        getBlock: mockRpc.getBlock.bind(mockRpc),
+        getBlocksBatch: mockRpc.getBlocksBatch.bind(mockRpc),
+        getLogs: mockRpc.getLogs.bind(mockRpc),
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+      });
+      const subscriber1 = new MockSubscriber(addressSubscriber1, blockChain1);
+      subscriber1.enableSnapshots(snapshotStore, "subscriber1", 10);
+
+      await blockManager.initialize(blockChain1[1].block);
+      await blockManager.subscribeToLogs(
+        subscriber1.getAddressAndTopics(),
+        subscriber1
+      );
+      await blockManager.handleBlock(blockChain1[2].block);
+      await blockManager.handleBlock(blockChain1[3].block);
+
+      /* only the snapshot saved at initialization */
+      assert.deepEqual((await snapshotStore.load("subscriber1"))!.block, {
+        number: 1,
+        hash: "0x1",
+      });
+
+      /* e.g. before stopping */
+      await subscriber1.saveSnapshot();
+      assert.deepEqual(await snapshotStore.load("subscriber1"), {
+        block: { number: 3, hash: "0x3" },
+        data: JSON.stringify(blockChain1[3].state[addressSubscriber1]),
+      });
+    });
+  });
 });
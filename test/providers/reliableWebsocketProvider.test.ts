@@ -33,6 +33,10 @@ class ReliableWebSocketProviderMock extends ReliableWebSocketProvider {
       error: undefined,
     });
   }
+
+  public getTransactionsAndReceiptsForTest(hashes: string[]): Promise<BlockManager.ErrorOrTransactions> {
+    return this.getTransactionsAndReceipts(hashes);
+  }
 };
 
 describe("ReliableWebSocketProvider", () => {
@@ -142,4 +146,40 @@ describe("ReliableWebSocketProvider", () => {
       "0x900171311bb44d46968a67d307103b680f47a1b1cd0b3b9ebfb5843c58c36ff3"
     );
   });
+
+  it("Get transactions and receipts over websocket", async () => {
+    const provider = new JsonRpcProvider(wsUrl);
+    const sent: string[] = [];
+    provider.send = async (method: string, params: any[]) => {
+      sent.push(`${method} ${params[0]}`);
+      return null;
+    };
+    const reliableWebsocketProvider = new ReliableWebSocketProviderMock(
+      {
+        provider: provider,
+        maxBlockCached: 50,
+        maxRetryGetBlock: 5,
+        retryDelayGetBlockMs: 200,
+        maxRetryGetLogs: 5,
+        retryDelayGetLogsMs: 200,
+        batchSize: 100,
+        multiv2Address: '', // can be null in test
+        getLogsTimeout: 30000,
+      },
+      {
+        wsUrl: wsUrl,
+        pingIntervalMs: 1000,
+        pingTimeoutMs: 200,
+        estimatedBlockTimeMs: 1000,
+      }
+    );
+
+    /* requests go through the websocket provider instead of failing with an unsupported protocol */
+    const { error } = await reliableWebsocketProvider.getTransactionsAndReceiptsForTest(["0x1"]);
+    assert.equal(error, "TransactionNotFound 0x1");
+    assert.deepEqual(sent, [
+      "eth_getTransactionByHash 0x1",
+      "eth_getTransactionReceipt 0x1",
+    ]);
+  });
 });
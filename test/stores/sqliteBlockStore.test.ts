@@ -0,0 +1,82 @@
+import assert from "assert";
+import { describe, it } from "mocha";
+import SqliteBlockStore from "../../src/stores/sqliteBlockStore";
+
+/* fake prisma client keeping CachedBlock rows in memory */
+class FakePrismaClient implements SqliteBlockStore.PrismaClient {
+  rows: Record<number, SqliteBlockStore.CachedBlockRow> = {};
+  upserted: number[] = [];
+  deleted: number[] = [];
+
+  cachedBlock: SqliteBlockStore.PrismaClient["cachedBlock"] = {
+    findMany: async () =>
+      Object.values(this.rows).sort((a, b) => a.number - b.number),
+    deleteMany: async ({ where }) => {
+      for (const number of Object.keys(this.rows).map(Number)) {
+        if (!where.number.notIn.includes(number)) {
+          delete this.rows[number];
+          this.deleted.push(number);
+        }
+      }
+    },
+    upsert: async ({ where, create, update }) => {
+      this.rows[where.number] = this.rows[where.number]
+        ? { ...this.rows[where.number], ...update }
+        : create;
+      this.upserted.push(where.number);
+    },
+  };
+
+  async $transaction(queries: Promise<unknown>[]) {
+    return Promise.all(queries);
+  }
+}
+
+const block = (number: number, hash: string = `0x${number}`) => ({
+  number,
+  hash,
+  parentHash: `0x${number - 1}`,
+});
+
+describe("SqliteBlockStore", () => {
+  it("load saved blocks", async () => {
+    const prisma = new FakePrismaClient();
+    await new SqliteBlockStore(prisma).save([block(1), block(2)]);
+
+    const store = new SqliteBlockStore(prisma);
+    assert.deepEqual(await store.load(), [block(1), block(2)]);
+  });
+
+  it("load saved header fields", async () => {
+    const prisma = new FakePrismaClient();
+    const withHeader = {
+      ...block(1),
+      timestamp: 1680787427,
+      baseFeePerGas: "0x788da4e57",
+      gasUsed: "0xc5718a",
+    };
+    await new SqliteBlockStore(prisma).save([withHeader, block(2)]);
+
+    const store = new SqliteBlockStore(prisma);
+    assert.deepEqual(await store.load(), [withHeader, block(2)]);
+  });
+
+  it("only write blocks changed since last save", async () => {
+    const prisma = new FakePrismaClient();
+    const store = new SqliteBlockStore(prisma);
+
+    await store.save([block(1), block(2)]);
+    assert.deepEqual(prisma.upserted, [1, 2]);
+
+    /* block 2 reorged, block 1 dropped from cache */
+    prisma.upserted = [];
+    await store.save([block(2, "0x2b"), block(3)]);
+    assert.deepEqual(prisma.upserted, [2, 3]);
+    assert.deepEqual(prisma.deleted, [1]);
+    assert.deepEqual(await store.load(), [block(2, "0x2b"), block(3)]);
+
+    prisma.upserted = [];
+    await store.save([block(2, "0x2b"), block(3)]);
+    assert.deepEqual(prisma.upserted, []);
+  });
+});
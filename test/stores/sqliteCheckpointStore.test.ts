@@ -0,0 +1,41 @@
+import assert from "assert";
+import { describe, it } from "mocha";
+import SqliteCheckpointStore from "../../src/stores/sqliteCheckpointStore";
+
+/* fake prisma client keeping SubscriberCheckpoint rows in memory */
+class FakePrismaClient implements SqliteCheckpointStore.PrismaClient {
+  rows: Record<string, SqliteCheckpointStore.SubscriberCheckpointRow> = {};
+
+  subscriberCheckpoint: SqliteCheckpointStore.PrismaClient["subscriberCheckpoint"] =
+    {
+      findUnique: async ({ where }) => this.rows[where.key] || null,
+      upsert: async ({ where, create, update }) => {
+        this.rows[where.key] = this.rows[where.key]
+          ? { ...this.rows[where.key], ...update }
+          : create;
+      },
+    };
+
+  async $transaction(queries: Promise<unknown>[]) {
+    return Promise.all(queries);
+  }
+}
+
+describe("SqliteCheckpointStore", () => {
+  it("load saved checkpoints", async () => {
+    const store = new SqliteCheckpointStore(new FakePrismaClient());
+    const checkpoint = {
+      block: { number: 2, hash: "0x2" },
+      initializedAt: { number: 1, hash: "0x1" },
+      lastSeenEventBlock: { number: 2, hash: "0x2" },
+    };
+
+    assert.equal(await store.load("subscriber1"), undefined);
+    await store.save({ subscriber1: checkpoint });
+    assert.deepEqual(await store.load("subscriber1"), checkpoint);
+
+    const next = { ...checkpoint, block: { number: 3, hash: "0x3" } };
+    await store.save({ subscriber1: next });
+    assert.deepEqual(await store.load("subscriber1"), next);
+  });
+});
@@ -0,0 +1,52 @@
+import assert from "assert";
+import { describe, it } from "mocha";
+import BoundedAsyncQueue from "../../src/util/boundedAsyncQueue";
+
+describe("BoundedAsyncQueue", () => {
+  it("deliver pushed items in order", async () => {
+    const queue = new BoundedAsyncQueue<number>(10);
+    await queue.push(1);
+    await queue.push(2);
+    queue.close();
+
+    const items: number[] = [];
+    for await (const item of queue) {
+      items.push(item);
+    }
+    assert.deepEqual(items, [1, 2]);
+  });
+
+  it("push waits when buffer is full", async () => {
+    const queue = new BoundedAsyncQueue<number>(1);
+    await queue.push(1);
+
+    let pushed = false;
+    const push = queue.push(2).then(() => {
+      pushed = true;
+    });
+    await Promise.resolve();
+    assert.equal(pushed, false);
+
+    assert.deepEqual(await queue.next(), { value: 1, done: false });
+    await push;
+    assert.equal(pushed, true);
+    assert.deepEqual(await queue.next(), { value: 2, done: false });
+  });
+
+  it("break stops the iterator", async () => {
+    let returned = false;
+    const queue = new BoundedAsyncQueue<number>(2, () => {
+      returned = true;
+    });
+    await queue.push(1);
+    await queue.push(2);
+
+    for await (const item of queue) {
+      assert.equal(item, 1);
+      break;
+    }
+    assert.equal(returned, true);
+    assert.deepEqual(await queue.next(), { value: undefined, done: true });
+    await queue.push(3); // does not wait once closed
+  });
+});
@@ -0,0 +1,28 @@
+import assert from "assert";
+import { describe, it } from "mocha";
+import { isLogsRangeLimitError } from "../../src/util/logsRange";
+
+describe("Logs range", () => {
+  describe("isLogsRangeLimitError", () => {
+    it("recognizes rpc limit errors", () => {
+      assert.equal(
+        isLogsRangeLimitError("query returned more than 10000 results"),
+        true
+      );
+      assert.equal(isLogsRangeLimitError("Block range too large"), true);
+      assert.equal(
+        isLogsRangeLimitError(
+          'processing response error (body="{\\"error\\":{\\"code\\":-32602,\\"message\\":\\"exceed maximum block range: 5000\\"}}")'
+        ),
+        true
+      );
+      assert.equal(isLogsRangeLimitError("Log response size exceeded."), true);
+    });
+
+    it("ignores other errors", () => {
+      assert.equal(isLogsRangeLimitError("FailedFetchingLog"), false);
+      assert.equal(isLogsRangeLimitError("Timeout"), false);
+      assert.equal(isLogsRangeLimitError("block not processed yet"), false);
+    });
+  });
+});
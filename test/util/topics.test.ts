@@ -0,0 +1,82 @@
+import assert from "assert";
+import { describe, it } from "mocha";
+import { Log } from "@ethersproject/providers";
+import { logMatchesTopics, mergeTopics } from "../../src/util/topics";
+
+const topicA =
+  "0x000000000000000000000000000000000000000000000000000000000000000a";
+const topicB =
+  "0x000000000000000000000000000000000000000000000000000000000000000b";
+const topicC =
+  "0x000000000000000000000000000000000000000000000000000000000000000c";
+
+const generateMockLog = (topics: string[]): Log => {
+  return {
+    blockNumber: 1,
+    blockHash: "0x1",
+    transactionIndex: 0,
+    removed: false,
+    address: "0xf237dE5664D3c2D2545684E76fef02A3A58A364c",
+    data: "",
+    topics,
+    transactionHash: "",
+    logIndex: 0,
+  };
+};
+
+describe("Topics", () => {
+  describe("mergeTopics", () => {
+    it("no subscription", () => {
+      assert.deepEqual(mergeTopics([]), []);
+    });
+
+    it("one subscription without topics accepts everything", () => {
+      assert.deepEqual(mergeTopics([[topicA], []]), []);
+    });
+
+    it("union of topics by position", () => {
+      assert.deepEqual(mergeTopics([[topicA], [topicB], [topicA]]), [
+        [topicA, topicB],
+      ]);
+    });
+
+    it("position not restricted by every subscription becomes null", () => {
+      assert.deepEqual(
+        mergeTopics([
+          [topicA, topicC],
+          [topicB, null],
+        ]),
+        [[topicA, topicB]]
+      );
+      assert.deepEqual(
+        mergeTopics([
+          [topicA, topicC],
+          [null, topicC],
+        ]),
+        [null, topicC]
+      );
+    });
+
+    it("normalizes topics case", () => {
+      assert.deepEqual(
+        mergeTopics([[topicA.toUpperCase().replace("0X", "0x")], [[topicA]]]),
+        [topicA]
+      );
+    });
+  });
+
+  describe("logMatchesTopics", () => {
+    it("empty filter matches everything", () => {
+      assert.equal(logMatchesTopics(generateMockLog([topicA]), []), true);
+    });
+
+    it("matches by position", () => {
+      const log = generateMockLog([topicA, topicB]);
+      assert.equal(logMatchesTopics(log, [topicA]), true);
+      assert.equal(logMatchesTopics(log, [null, topicB]), true);
+      assert.equal(logMatchesTopics(log, [[topicC, topicA], topicB]), true);
+      assert.equal(logMatchesTopics(log, [topicB]), false);
+      assert.equal(logMatchesTopics(log, [topicA, topicB, topicC]), false);
+    });
+  });
+});